@@ -1,15 +1,104 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
-import { Maximize2, Minimize2, Hand, Info, X } from 'lucide-react';
+import { Maximize2, Minimize2, Hand, Info, X, SlidersHorizontal, Settings2, Type, Palette, Camera, Orbit } from 'lucide-react';
 
 // Components
 import SaturnScene from './components/SaturnScene';
 import CameraHandler from './components/CameraHandler';
+import GestureSettings from './components/GestureSettings';
+import HandCameraRig from './components/HandCameraRig';
+import FlyThroughRig from './components/FlyThroughRig';
+import FormationPicker from './components/FormationPicker';
+import PlanetFactCard from './components/PlanetFactCard';
+import PhrasePackPicker from './components/PhrasePackPicker';
+import PerformanceMonitor from './components/PerformanceMonitor';
+import DiagnosticsHud from './components/DiagnosticsHud';
+import VisualSettingsPanel from './components/VisualSettingsPanel';
+import CaptureRig from './components/CaptureRig';
+import CapturePanel from './components/CapturePanel';
+import Announcer from './components/Announcer';
+import ConsentScreen from './components/ConsentScreen';
+import VisionLinkStatus from './components/VisionLinkStatus';
 
 // Logic
-import { GestureState } from './types';
-import { PHRASES } from './constants';
+import {
+  GestureState,
+  ExpansionMode,
+  GestureAction,
+  GestureBindings,
+  HandPosition,
+  FormationId,
+  PhraseDisplayMode,
+  PhrasePack,
+  PhrasePackInfo,
+  PhrasePreferences,
+  QualityTierId,
+  SettingsPreset,
+  VisualSettings,
+  CaptureMode,
+  FrameCapturer,
+  PhraseOverlayState,
+  KeyboardAction,
+  CameraConsent,
+  InteractionMode,
+  TrackedHand,
+  HandGroupControl,
+  HandSlot,
+  PlanetId
+} from './types';
+import {
+  PHRASE_REVEAL_THRESHOLD,
+  CAMERA_ZOOM_STEP,
+  CAMERA_ROTATE_STEP,
+  DEFAULT_FORMATION,
+  DEFAULT_QUALITY_TIER,
+  DEBUG_QUERY_PARAM,
+  CAPTURE_SCALE,
+  DEFAULT_CLIP_DURATION_S,
+  GESTURE_LABELS,
+  KEYBOARD_SHORTCUTS,
+  REDUCED_MOTION_QUERY,
+  SOLAR_SYSTEM_PLANETS,
+  SOLAR_SYSTEM_PACK_ID,
+  EXPLORER_START_PLANET
+} from './constants';
+import { loadBindings, loadInteractionMode, saveBindings, saveInteractionMode } from './services/bindingsService';
+import { getPlanet, nextFormationId, stepPlanet } from './services/formationService';
+import {
+  BUILTIN_PACK,
+  BUILTIN_PACK_INFO,
+  drawPhrase,
+  loadPackManifest,
+  loadPhrasePack,
+  loadPhrasePreferences,
+  packLocales,
+  savePhrasePreferences,
+  selectLocale
+} from './services/phraseService';
+import { createPhraseProvider } from './services/phraseGeneratorService';
+import { getQualityTier, resolvePinnedTier } from './services/performanceService';
+import {
+  allPresets,
+  loadCustomPresets,
+  loadSettingsFromUrl,
+  sanitizeSettings,
+  saveCustomPresets,
+  writeSettingsToUrl
+} from './services/settingsService';
+import {
+  ClipRecording,
+  canvasToBlob,
+  composeScreenshot,
+  composeShareCard,
+  downloadBlob,
+  recordClip,
+  supportedClipType
+} from './services/captureService';
+import { isLocalOnlyEnforced, loadConsent, saveConsent } from './services/privacyService';
+import { isCloudBackend, resolveRecognizerBackend } from './services/recognizerService';
+import { createLinkMonitor } from './services/linkHealthService';
+import { createDiagnostics } from './services/diagnosticsService';
 
 const App: React.FC = () => {
   // Application State
@@ -19,40 +108,383 @@ const App: React.FC = () => {
   const [cameraActive, setCameraActive] = useState<boolean>(true);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
   const [showInfo, setShowInfo] = useState<boolean>(true);
+  const [expansionMode, setExpansionMode] = useState<ExpansionMode>('toggle');
+  const [openness, setOpenness] = useState<number>(0);
 
-  // Available pool of indices to ensure non-repetition until exhaustion
-  const [availableIndices, setAvailableIndices] = useState<number[]>(
-    Array.from({ length: PHRASES.length }, (_, i) => i)
-  );
+  const [openPanel, setOpenPanel] = useState<'gestures' | 'look' | 'capture' | null>(null);
+  const [autoRotatePaused, setAutoRotatePaused] = useState<boolean>(false);
+  const [bindings, setBindings] = useState<GestureBindings>(loadBindings);
+  const [handPosition, setHandPosition] = useState<HandPosition | null>(null);
+  const [interactionMode, setInteractionMode] = useState<InteractionMode>(loadInteractionMode);
+  const [trackedHands, setTrackedHands] = useState<TrackedHand[]>([]);
+  const [handSteersCamera, setHandSteersCamera] = useState<boolean>(false);
+  const [showLabels, setShowLabels] = useState<boolean>(true);
+  const [formation, setFormation] = useState<FormationId>(DEFAULT_FORMATION);
+  const [phraseDisplay, setPhraseDisplay] = useState<PhraseDisplayMode>('overlay');
+
+  // Solar system explorer: null when not exploring. Each planet is a formation of its own.
+  const [planet, setPlanet] = useState<PlanetId | null>(null);
+  const [flightDirection, setFlightDirection] = useState<1 | -1>(1);
+  const exploring = planet !== null;
+
+  const controlsRef = useRef<React.ElementRef<typeof OrbitControls>>(null);
+
+  // Follows the OS setting live: no auto-rotation, calmer particles, no CSS animations
+  const [reducedMotion, setReducedMotion] = useState<boolean>(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = (event: MediaQueryListEvent) => setReducedMotion(event.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  // Nothing is captured until the visitor chooses. Asked again in every new session.
+  const [cameraConsent, setCameraConsent] = useState<CameraConsent | null>(loadConsent);
+  const localOnlyEnforced = useRef(isLocalOnlyEnforced()).current;
+  const localOnly = localOnlyEnforced || cameraConsent === 'local';
+  const cameraAllowed = cameraConsent === 'granted' || cameraConsent === 'local';
+  // One monitor for the page's lifetime, so backoff and spend survive recognizer swaps
+  const [linkMonitor] = useState(() => createLinkMonitor());
+
+  const handleConsent = (consent: CameraConsent | null) => {
+    setCameraConsent(consent);
+    saveConsent(consent);
+  };
+
+  // Screen-reader status line; gestures are announced only when they change
+  const [statusAnnouncement, setStatusAnnouncement] = useState<string | null>(null);
+
+  // Look & feel, mirrored into the URL (?look=) so any view can be shared
+  const [visualSettings, setVisualSettings] = useState<VisualSettings>(loadSettingsFromUrl);
+  const [customPresets, setCustomPresets] = useState<SettingsPreset[]>(loadCustomPresets);
+
+  // Rendering quality: stepped by the performance governor unless pinned with ?quality= or the settings panel
+  const pinnedTier = useRef(resolvePinnedTier()).current;
+  const pinnedQuality = pinnedTier ?? (visualSettings.quality !== 'auto' ? visualSettings.quality : null);
+  const [qualityTier, setQualityTier] = useState<QualityTierId>(pinnedTier ?? DEFAULT_QUALITY_TIER);
+  // Developer HUD: D toggles it, ?debug opens it on load
+  const [diagnostics] = useState(() => createDiagnostics());
+  const [showDiagnostics, setShowDiagnostics] = useState<boolean>(() => new URLSearchParams(window.location.search).has(DEBUG_QUERY_PARAM));
+  const quality = getQualityTier(pinnedQuality ?? qualityTier);
+
+  const isContinuous = expansionMode === 'continuous';
+  const multiHand = interactionMode !== 'single';
+
+  // Phrase packs. The built-in pack is used until (or unless) the chosen one loads.
+  const [phrasePrefs, setPhrasePrefs] = useState<PhrasePreferences>(loadPhrasePreferences);
+  const [phrasePacks, setPhrasePacks] = useState<PhrasePackInfo[]>([BUILTIN_PACK_INFO]);
+  const [activePack, setActivePack] = useState<PhrasePack>(BUILTIN_PACK);
+  const [packError, setPackError] = useState<string | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPackManifest().then(setPhrasePacks);
+  }, []);
+
+  useEffect(() => {
+    const info = phrasePacks.find(pack => pack.id === phrasePrefs.packId);
+    if (!info) return;
+
+    let cancelled = false;
+    loadPhrasePack(info)
+      .then((pack) => {
+        if (cancelled) return;
+        setActivePack(pack);
+        setPackError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setActivePack(BUILTIN_PACK);
+        setPackError(err.message);
+      });
+    return () => { cancelled = true; };
+  }, [phrasePacks, phrasePrefs.packId]);
+
+  // Each planet has its own phrases, loaded the first time the explorer opens
+  const [planetPack, setPlanetPack] = useState<PhrasePack | null>(null);
+
+  useEffect(() => {
+    const info = phrasePacks.find(pack => pack.id === SOLAR_SYSTEM_PACK_ID);
+    if (!exploring || planetPack || !info) return;
 
-  // Handle Gesture Changes
-  const handleGestureDetected = useCallback((detectedState: GestureState) => {
-    if (detectedState === GestureState.OPEN && !isExpanded) {
+    let cancelled = false;
+    loadPhrasePack(info)
+      .then((pack) => {
+        if (!cancelled) setPlanetPack(pack);
+      })
+      .catch((err) => console.warn("Solar system phrases unavailable, using the chosen pack:", err));
+    return () => { cancelled = true; };
+  }, [exploring, planetPack, phrasePacks]);
+
+  const availableLocales = packLocales(activePack);
+  const phraseLocale = phrasePrefs.locale && availableLocales.includes(phrasePrefs.locale)
+    ? phrasePrefs.locale
+    : selectLocale(availableLocales);
+
+  // Generated phrases are cached locally; the pack covers any gaps
+  const phraseProviderRef = useRef(createPhraseProvider());
+  const isGenerated = phrasePrefs.source === 'generated';
+
+  useEffect(() => {
+    if (isGenerated) phraseProviderRef.current.prefetch({ locale: phraseLocale, mood: phrasePrefs.mood });
+  }, [isGenerated, phraseLocale, phrasePrefs.mood]);
+
+  const handlePhrasePrefsChange = (next: PhrasePreferences) => {
+    setPhrasePrefs(next);
+    savePhrasePreferences(next);
+  };
+
+  // Capture & export. The rig inside the Canvas renders stills on demand and reports every frame.
+  const capturerRef = useRef<FrameCapturer | null>(null);
+  const phraseOverlayRef = useRef<PhraseOverlayState | null>(null);
+  const clipRef = useRef<ClipRecording | null>(null);
+  // Set synchronously, so two triggers before the next render can't both start a capture
+  const captureBusyRef = useRef(false);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('card');
+  const [clipDuration, setClipDuration] = useState<number>(DEFAULT_CLIP_DURATION_S);
+  const [capturing, setCapturing] = useState<'still' | 'clip' | null>(null);
+  const [captureStatus, setCaptureStatus] = useState<string | null>(null);
+  const canRecord = useRef(supportedClipType() !== null).current;
+
+  const handleCapturerReady = useCallback((capturer: FrameCapturer | null) => {
+    capturerRef.current = capturer;
+  }, []);
+
+  const runCapture = async (mode: CaptureMode) => {
+    const capturer = capturerRef.current;
+    // A second trigger while recording ends the clip early
+    if (clipRef.current) {
+      clipRef.current.stop();
+      return;
+    }
+    if (!capturer || captureBusyRef.current) return;
+    captureBusyRef.current = true;
+
+    try {
+      if (mode === 'clip') {
+        const clip = recordClip(capturer, () => phraseOverlayRef.current, clipDuration * 1000);
+        clipRef.current = clip;
+        setCapturing('clip');
+        setCaptureStatus('Recording…');
+        downloadBlob(await clip.done, 'clip', 'webm');
+      } else {
+        setCapturing('still');
+        const frame = capturer.still(CAPTURE_SCALE);
+        // The card always carries the phrase, unless the stardust is already spelling it
+        const cardPhrase = currentPhrase && !(particleText && isExpanded)
+          ? { text: currentPhrase, opacity: 1, locale: phraseLocale }
+          : null;
+        const image = mode === 'card'
+          ? await composeShareCard(frame, cardPhrase)
+          : await composeScreenshot(frame, phraseOverlayRef.current);
+        downloadBlob(await canvasToBlob(image), mode === 'card' ? 'card' : 'still', 'png');
+      }
+      setCaptureStatus('Saved to downloads');
+    } catch (err) {
+      setCaptureStatus(err instanceof Error ? err.message : "Capture failed.");
+    } finally {
+      clipRef.current = null;
+      captureBusyRef.current = false;
+      setCapturing(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!captureStatus || capturing) return;
+    const timer = setTimeout(() => setCaptureStatus(null), 3000);
+    return () => clearTimeout(timer);
+  }, [captureStatus, capturing]);
+
+  // Don't leave a recorder running after unmount
+  useEffect(() => () => clipRef.current?.stop(), []);
+
+  // Camera helpers for gesture actions. Both keep the orbit target fixed.
+  const zoomCamera = (factor: number) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+    const offset = controls.object.position.clone().sub(controls.target);
+    const distance = Math.min(controls.maxDistance, Math.max(controls.minDistance, offset.length() * factor));
+    controls.object.position.copy(controls.target).add(offset.setLength(distance));
+    controls.update();
+  };
+
+  const rotateCamera = (angle: number) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+    const offset = controls.object.position.clone().sub(controls.target);
+    offset.applyAxisAngle(controls.object.up, angle);
+    controls.object.position.copy(controls.target).add(offset);
+    controls.update();
+  };
+
+  const travelTo = (next: PlanetId) => {
+    if (!planet || next === planet) return;
+    const from = SOLAR_SYSTEM_PLANETS.findIndex(p => p.id === planet);
+    const to = SOLAR_SYSTEM_PLANETS.findIndex(p => p.id === next);
+    setFlightDirection(to > from ? 1 : -1);
+    setPlanet(next);
+  };
+
+  const travel = (step: 1 | -1) => {
+    if (planet) travelTo(stepPlanet(planet, step));
+  };
+
+  const runAction = (action: GestureAction) => {
+    switch (action) {
+      case 'disperse':
+        if (!isExpanded) {
+          setIsExpanded(true);
+          triggerNewPhrase();
+        }
+        break;
+      case 'reform':
+        if (isExpanded) setIsExpanded(false);
+        break;
+      case 'nextPhrase':
+        // Reveal first if the planet is still formed
+        if (!isExpanded) setIsExpanded(true);
+        triggerNewPhrase();
+        break;
+      case 'zoomIn':
+        zoomCamera(CAMERA_ZOOM_STEP);
+        break;
+      case 'zoomOut':
+        zoomCamera(1 / CAMERA_ZOOM_STEP);
+        break;
+      case 'rotateLeft':
+        rotateCamera(-CAMERA_ROTATE_STEP);
+        break;
+      case 'rotateRight':
+        rotateCamera(CAMERA_ROTATE_STEP);
+        break;
+      case 'toggleAutoRotate':
+        setAutoRotatePaused(paused => !paused);
+        break;
+      case 'toggleInfo':
+        setShowInfo(show => !show);
+        break;
+      case 'nextFormation':
+        if (exploring) travel(1);
+        else setFormation(nextFormationId);
+        break;
+      case 'capture':
+        runCapture(captureMode);
+        break;
+    }
+  };
+
+  // Handle Gesture Changes. Not memoized: CameraHandler reads the latest handlers through a ref,
+  // so every call sees this render's phrase settings, pack and planet.
+  const handleGestureDetected = (detectedState: GestureState) => {
+    if (detectedState === GestureState.NONE) return;
+
+    // Only changes of hand state and one-shot events arrive here, so each is news
+    setStatusAnnouncement(`${GESTURE_LABELS[detectedState]} detected`);
+
+    // In the explorer, swipes travel between planets whatever they're bound to
+    if (exploring && (detectedState === GestureState.SWIPE_LEFT || detectedState === GestureState.SWIPE_RIGHT)) {
+      travel(detectedState === GestureState.SWIPE_LEFT ? 1 : -1);
+      return;
+    }
+
+    const isHandState = detectedState === GestureState.OPEN || detectedState === GestureState.CLOSED;
+    if (isHandState) setGestureState(detectedState);
+
+    // In continuous mode expansion is driven by openness instead, and with several hands by each hand
+    if (isHandState && (isContinuous || multiHand)) return;
+
+    runAction(bindings[detectedState]);
+  };
+
+  const handleInteractionModeChange = (mode: InteractionMode) => {
+    setInteractionMode(mode);
+    saveInteractionMode(mode);
+  };
+
+  const handleBindingsChange = (next: GestureBindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const handleVisualSettingsChange = (next: VisualSettings) => {
+    const settings = sanitizeSettings(next);
+    setVisualSettings(settings);
+    writeSettingsToUrl(settings);
+  };
+
+  const handleSavePreset = (name: string) => {
+    const preset: SettingsPreset = { id: `custom-${Date.now().toString(36)}`, name, settings: { ...visualSettings } };
+    const next = [...customPresets, preset];
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const next = customPresets.filter(preset => preset.id !== id);
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  // Handle continuous openness (0-1). Crossing the threshold counts as a reveal.
+  const handleOpennessDetected = (value: number) => {
+    setOpenness(value);
+    if (!isContinuous || multiHand) return;
+
+    const revealed = value >= PHRASE_REVEAL_THRESHOLD;
+    if (revealed && !isExpanded) {
       setIsExpanded(true);
       triggerNewPhrase();
-    } else if (detectedState === GestureState.CLOSED && isExpanded) {
+    } else if (!revealed && isExpanded) {
       setIsExpanded(false);
     }
-    setGestureState(detectedState);
-  }, [isExpanded]);
+  };
 
-  // Logic to pick a random phrase without repetition
-  const triggerNewPhrase = () => {
-    let indices = availableIndices;
-    if (indices.length === 0) {
-      // Reset if we used all phrases
-      indices = Array.from({ length: PHRASES.length }, (_, i) => i);
+  // With several hands, the phrase is revealed as soon as any of them opens
+  const handleHandsTracked = (hands: TrackedHand[]) => {
+    setTrackedHands(hands);
+    if (!multiHand) return;
+
+    const revealed = hands.some(hand => isContinuous ? hand.openness >= PHRASE_REVEAL_THRESHOLD : hand.state === GestureState.OPEN);
+    if (revealed && !isExpanded) {
+      setIsExpanded(true);
+      triggerNewPhrase();
+    } else if (!revealed && isExpanded) {
+      setIsExpanded(false);
     }
+  };
 
-    const randomIndex = Math.floor(Math.random() * indices.length);
-    const phraseIndex = indices[randomIndex];
-    
-    // Remove used index
-    const newIndices = [...indices];
-    newIndices.splice(randomIndex, 1);
-    setAvailableIndices(newIndices);
+  // Each particle group follows the hand in its slot. An empty slot stays formed while someone
+  // else plays; with nobody in view, both follow the keyboard and buttons like one hand would.
+  const sharedExpansion = isContinuous ? openness : (isExpanded ? 1 : 0);
+  const handGroups: HandGroupControl[] | null = multiHand
+    ? ([0, 1] as HandSlot[]).map(slot => {
+        const hand = trackedHands.find(h => h.slot === slot);
+        if (!hand) return { expansion: trackedHands.length > 0 ? 0 : sharedExpansion, position: null };
+        const expansion = isContinuous ? hand.openness : (hand.state === GestureState.OPEN ? 1 : 0);
+        return { expansion, position: hand.position };
+      })
+    : null;
 
-    setCurrentPhrase(PHRASES[phraseIndex]);
+  // Logic to pick a weighted random phrase without repetition (persisted across reloads)
+  const triggerNewPhrase = () => {
+    if (planet && planetPack) {
+      const phrase = drawPhrase(planetPack, selectLocale(packLocales(planetPack)), planet);
+      if (phrase) {
+        setCurrentPhrase(phrase.text);
+        return;
+      }
+    }
+    if (isGenerated) {
+      const generated = phraseProviderRef.current.next({ locale: phraseLocale, mood: phrasePrefs.mood });
+      if (generated) {
+        setCurrentPhrase(generated);
+        return;
+      }
+    }
+    // A category the locale doesn't have falls back to the whole pack
+    const phrase = drawPhrase(activePack, phraseLocale, phrasePrefs.category)
+      ?? drawPhrase(activePack, phraseLocale, null);
+    if (phrase) setCurrentPhrase(phrase.text);
   };
 
   // Toggle Fullscreen
@@ -72,55 +504,227 @@ const App: React.FC = () => {
   const handleManualToggle = () => {
     if (isExpanded) {
       setIsExpanded(false);
+      setOpenness(0);
       setGestureState(GestureState.CLOSED);
     } else {
       setIsExpanded(true);
+      setOpenness(1);
       setGestureState(GestureState.OPEN);
       triggerNewPhrase();
     }
   };
 
+  const runKeyboardAction = (action: KeyboardAction) => {
+    switch (action) {
+      case 'toggleExpansion':
+        handleManualToggle();
+        break;
+      case 'nextPhrase':
+        runAction('nextPhrase');
+        break;
+      case 'toggleInfo':
+        setShowInfo(show => !show);
+        break;
+      case 'toggleFullscreen':
+        toggleFullscreen();
+        break;
+      case 'toggleLabels':
+        setShowLabels(show => !show);
+        break;
+      case 'toggleExplorer':
+        setPlanet(exploring ? null : EXPLORER_START_PLANET);
+        break;
+      case 'previousPlanet':
+        travel(-1);
+        break;
+      case 'nextPlanet':
+        travel(1);
+        break;
+      case 'toggleDiagnostics':
+        setShowDiagnostics(show => !show);
+        break;
+      case 'closePanel':
+        setOpenPanel(null);
+        break;
+    }
+  };
+
+  // The listener is registered once; the ref always points at this render's handler
+  const keyboardActionRef = useRef(runKeyboardAction);
+  keyboardActionRef.current = runKeyboardAction;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) return;
+      const target = event.target as HTMLElement | null;
+      // Don't steal keys from form fields, or Space from the focused button
+      if (event.key !== 'Escape' && target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (event.key === ' ' && target?.closest('button, a')) return;
+
+      const shortcut = KEYBOARD_SHORTCUTS.find(s => s.key === event.key.toLowerCase());
+      if (!shortcut) return;
+      event.preventDefault();
+      keyboardActionRef.current(shortcut.action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Announce the planet's state, but not on first load
+  const announcedExpansionRef = useRef(isExpanded);
+  useEffect(() => {
+    if (announcedExpansionRef.current === isExpanded) return;
+    announcedExpansionRef.current = isExpanded;
+    setStatusAnnouncement(isExpanded ? 'Nebula dispersed' : 'Planet reformed');
+  }, [isExpanded]);
+
+  const announcedPlanetRef = useRef(planet);
+  useEffect(() => {
+    if (announcedPlanetRef.current === planet) return;
+    announcedPlanetRef.current = planet;
+    setStatusAnnouncement(planet ? `Now visiting ${getPlanet(planet).name}` : 'Left the solar system');
+  }, [planet]);
+
+  const particleText = phraseDisplay === 'particles';
+
+  // Phrase fades in from the threshold up to a fully open hand.
+  // In particle mode the stardust spells it instead, so the overlay stays hidden.
+  const overlayReveal = isContinuous
+    ? Math.min(1, Math.max(0, (openness - PHRASE_REVEAL_THRESHOLD) / (1 - PHRASE_REVEAL_THRESHOLD)))
+    : (isExpanded ? 1 : 0);
+  const phraseReveal = particleText ? 0 : overlayReveal;
+  phraseOverlayRef.current = currentPhrase && phraseReveal > 0
+    ? { text: currentPhrase, opacity: phraseReveal, locale: phraseLocale }
+    : null;
+  // Read out once it's legible, whether in the overlay or spelled in stardust
+  const announcedPhrase = currentPhrase && (phraseReveal > 0.5 || (particleText && isExpanded)) ? currentPhrase : null;
+
   return (
     <div className="relative w-full h-screen bg-[#050505] overflow-hidden select-none font-sans text-white">
       
       {/* 3D Scene */}
       <div className="absolute inset-0 z-0">
-        <Canvas camera={{ position: [0, 20, 60], fov: 45 }} dpr={[1, 2]}>
+        <Canvas camera={{ position: [0, 20, 60], fov: 45 }} dpr={[1, quality.maxDpr]}>
           <color attach="background" args={['#020205']} />
           <ambientLight intensity={0.2} />
           
-          <Stars radius={200} depth={50} count={7000} factor={4} saturation={0} fade speed={0.5} />
+          <Stars radius={200} depth={50} count={quality.starCount} factor={4} saturation={0} fade speed={reducedMotion ? 0 : 0.5} />
+          
+          <SaturnScene 
+            gestureState={gestureState} 
+            isExpanded={isExpanded} 
+            expansionMode={expansionMode} 
+            openness={openness} 
+            handPosition={handPosition} 
+            formation={planet ? getPlanet(planet).formation : formation} 
+            phraseText={particleText && currentPhrase ? currentPhrase : null} 
+            quality={quality} 
+            settings={visualSettings} 
+            reducedMotion={reducedMotion} 
+            interactionMode={interactionMode} 
+            handGroups={handGroups} 
+            diagnostics={diagnostics} 
+            showLabels={showLabels} 
+            onSimulationError={setSimulationError} 
+          />
           
-          <SaturnScene gestureState={gestureState} isExpanded={isExpanded} />
+          <HandCameraRig handPosition={handPosition} enabled={handSteersCamera && !isExpanded && !multiHand} />
+          <FlyThroughRig planet={planet} direction={flightDirection} enabled={!reducedMotion} />
           
           <OrbitControls 
+            ref={controlsRef}
+            makeDefault
             enablePan={false} 
             enableZoom={true} 
             minDistance={20} 
             maxDistance={120}
-            autoRotate={!isExpanded}
+            autoRotate={!reducedMotion && !isExpanded && !autoRotatePaused && !(handSteersCamera && handPosition) && interactionMode !== 'twoVisitors'}
             autoRotateSpeed={0.3}
           />
+
+          <CaptureRig onReady={handleCapturerReady} />
+
+          <PerformanceMonitor 
+            key={pinnedQuality ?? 'auto'} 
+            initialTier={quality.id} 
+            pinned={pinnedQuality !== null} 
+            onTierChange={setQualityTier} 
+            onStats={diagnostics.recordPerformance} 
+          />
         </Canvas>
       </div>
 
+      {showDiagnostics && <DiagnosticsHud diagnostics={diagnostics} linkMonitor={linkMonitor} onClose={() => setShowDiagnostics(false)} />}
+
       {/* Header UI */}
       <header className="absolute top-0 left-0 w-full p-8 flex justify-between items-start z-10 pointer-events-none">
         <div className="pointer-events-auto animate-fade-in-down">
            <h1 className="text-3xl md:text-4xl font-extralight tracking-[0.3em] text-white/90 drop-shadow-lg">
              SATURN NEBULA
            </h1>
-           <div className="flex items-center gap-2 mt-2 ml-1 text-white/40 text-xs font-mono uppercase tracking-widest">
-             <span className={`w-1.5 h-1.5 rounded-full ${cameraActive ? 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)]' : 'bg-red-500'}`}></span>
-             <span>Gemini Vision Link Active</span>
-           </div>
+           <VisionLinkStatus 
+             monitor={linkMonitor} 
+             cameraAllowed={cameraAllowed} 
+             cameraActive={cameraActive} 
+             onPrivacy={() => handleConsent(null)} 
+           />
         </div>
 
         <div className="flex gap-3 pointer-events-auto">
+          <button 
+            onClick={() => setExpansionMode(isContinuous ? 'toggle' : 'continuous')}
+            className={`group p-3 rounded-full border backdrop-blur-md transition-all duration-300 ${isContinuous ? 'bg-blue-500/10 border-blue-400/30' : 'bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/20'}`}
+            aria-label="Toggle Continuous Control"
+            aria-pressed={isContinuous}
+            title={isContinuous ? 'Continuous control' : 'Open/close control'}
+          >
+            <SlidersHorizontal size={18} className={isContinuous ? 'text-blue-200' : 'text-white/70 group-hover:text-white'} />
+          </button>
+          <button 
+            onClick={() => setPhraseDisplay(particleText ? 'overlay' : 'particles')}
+            className={`group p-3 rounded-full border backdrop-blur-md transition-all duration-300 ${particleText ? 'bg-blue-500/10 border-blue-400/30' : 'bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/20'}`}
+            aria-label="Toggle Particle Text"
+            aria-pressed={particleText}
+            title={particleText ? 'Phrase drawn in stardust' : 'Phrase as overlay'}
+          >
+            <Type size={18} className={particleText ? 'text-blue-200' : 'text-white/70 group-hover:text-white'} />
+          </button>
+          <button 
+            onClick={() => setPlanet(exploring ? null : EXPLORER_START_PLANET)}
+            className={`group p-3 rounded-full border backdrop-blur-md transition-all duration-300 ${exploring ? 'bg-blue-500/10 border-blue-400/30' : 'bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/20'}`}
+            aria-label="Solar System Explorer"
+            aria-pressed={exploring}
+            aria-keyshortcuts="E"
+            title="Solar system explorer"
+          >
+            <Orbit size={18} className={exploring ? 'text-blue-200' : 'text-white/70 group-hover:text-white'} />
+          </button>
+          <button 
+            onClick={() => setOpenPanel(openPanel === 'gestures' ? null : 'gestures')}
+            className="group p-3 rounded-full bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/20 backdrop-blur-md transition-all duration-300"
+            aria-label="Gesture Settings"
+          >
+            <Settings2 size={18} className="text-white/70 group-hover:text-white" />
+          </button>
+          <button 
+            onClick={() => setOpenPanel(openPanel === 'look' ? null : 'look')}
+            className="group p-3 rounded-full bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/20 backdrop-blur-md transition-all duration-300"
+            aria-label="Look Settings"
+          >
+            <Palette size={18} className="text-white/70 group-hover:text-white" />
+          </button>
+          <button 
+            onClick={() => setOpenPanel(openPanel === 'capture' ? null : 'capture')}
+            className={`group p-3 rounded-full border backdrop-blur-md transition-all duration-300 ${capturing === 'clip' ? 'bg-red-500/10 border-red-400/30' : 'bg-white/5 hover:bg-white/10 border-white/5 hover:border-white/20'}`}
+            aria-label="Capture"
+          >
+            <Camera size={18} className={capturing === 'clip' ? 'text-red-200' : 'text-white/70 group-hover:text-white'} />
+          </button>
           <button 
             onClick={() => setShowInfo(!showInfo)}
             className="group p-3 rounded-full bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/20 backdrop-blur-md transition-all duration-300"
             aria-label="Toggle Info"
+            aria-keyshortcuts="I"
           >
             <Info size={18} className="text-white/70 group-hover:text-white" />
           </button>
@@ -128,6 +732,7 @@ const App: React.FC = () => {
             onClick={toggleFullscreen}
             className="group p-3 rounded-full bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/20 backdrop-blur-md transition-all duration-300"
             aria-label="Toggle Fullscreen"
+            aria-keyshortcuts="F"
           >
              {isFullscreen ? 
                <Minimize2 size={18} className="text-white/70 group-hover:text-white" /> : 
@@ -145,6 +750,7 @@ const App: React.FC = () => {
              <button 
                 onClick={() => setShowInfo(false)}
                 className="absolute top-4 right-4 text-white/30 hover:text-white/80 transition-colors"
+                aria-label="Close Info"
              >
                <X size={14} />
              </button>
@@ -176,17 +782,99 @@ const App: React.FC = () => {
                   </div>
                 </div>
              </div>
+
+             <h4 className="text-white/40 text-[10px] uppercase tracking-widest mt-5 pt-4 border-t border-white/10 mb-2">Keyboard</h4>
+             <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+               {KEYBOARD_SHORTCUTS.map(shortcut => (
+                 <React.Fragment key={shortcut.key}>
+                   <dt><kbd className="px-1.5 py-0.5 rounded border border-white/20 bg-white/5 font-mono text-[10px] text-white/70">{shortcut.label}</kbd></dt>
+                   <dd className="text-white/50">{shortcut.description}</dd>
+                 </React.Fragment>
+               ))}
+             </dl>
            </div>
         </div>
       )}
 
+      {/* Gesture Binding Settings */}
+      {openPanel === 'gestures' && (
+        <GestureSettings 
+          bindings={bindings} 
+          onChange={handleBindingsChange} 
+          handSteersCamera={handSteersCamera} 
+          onHandSteersCameraChange={setHandSteersCamera} 
+          interactionMode={interactionMode} 
+          onInteractionModeChange={handleInteractionModeChange} 
+          onClose={() => setOpenPanel(null)} 
+        >
+          <h3 className="text-white/90 font-light tracking-wider mb-4 text-lg">PHRASES</h3>
+          <PhrasePackPicker 
+            packs={phrasePacks} 
+            activePack={activePack} 
+            preferences={phrasePrefs} 
+            onChange={handlePhrasePrefsChange} 
+            error={packError} 
+          />
+        </GestureSettings>
+      )}
+
+      {/* Look & Feel Settings */}
+      {openPanel === 'look' && (
+        <VisualSettingsPanel 
+          settings={visualSettings} 
+          onChange={handleVisualSettingsChange} 
+          presets={allPresets(customPresets)} 
+          onSavePreset={handleSavePreset} 
+          onDeletePreset={handleDeletePreset} 
+          onClose={() => setOpenPanel(null)} 
+        />
+      )}
+
+      {/* Capture & Export */}
+      {openPanel === 'capture' && (
+        <CapturePanel 
+          mode={captureMode} 
+          onModeChange={setCaptureMode} 
+          clipDuration={clipDuration} 
+          onClipDurationChange={setClipDuration} 
+          canRecord={canRecord} 
+          recording={capturing === 'clip'} 
+          busy={capturing === 'still'} 
+          status={captureStatus} 
+          onCapture={() => runCapture(captureMode)} 
+          onClose={() => setOpenPanel(null)} 
+        />
+      )}
+
+      {/* Capture feedback for gesture-triggered captures */}
+      {captureStatus && openPanel !== 'capture' && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-30 pointer-events-none flex items-center gap-2 px-4 py-1.5 rounded-full bg-black/50 border border-white/10 backdrop-blur-md text-white/70 text-xs uppercase tracking-widest" role="status">
+          {capturing === 'clip' && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>}
+          {captureStatus}
+        </div>
+      )}
+
+      {/* The GPU couldn't run the particles at any tier; everything else still works */}
+      {simulationError && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-30 pointer-events-none max-w-md px-4 py-2 rounded-2xl bg-black/50 border border-red-400/20 backdrop-blur-md text-red-200/80 text-xs text-center" role="alert">
+          The particle nebula can't run on this device's graphics. ({simulationError})
+        </div>
+      )}
+
+      {/* Screen-reader announcements */}
+      <Announcer phrase={announcedPhrase} status={statusAnnouncement} />
+
       {/* Center Phrase Display */}
-      <div className={`
-        absolute inset-0 flex items-center justify-center z-0 pointer-events-none transition-all duration-1000 ease-out
-        ${isExpanded ? 'opacity-100 scale-100 blur-0' : 'opacity-0 scale-95 blur-sm'}
-      `}>
+      <div 
+        className={`
+          absolute inset-0 flex items-center justify-center z-0 pointer-events-none transition-all duration-1000 ease-out
+          ${phraseReveal > 0.5 ? 'scale-100 blur-0' : 'scale-95 blur-sm'}
+        `}
+        style={{ opacity: phraseReveal }}
+        aria-hidden={phraseReveal === 0}
+      >
         <div className="text-center px-6 max-w-5xl">
-           <p className="text-transparent bg-clip-text bg-gradient-to-b from-white via-white to-white/60 text-4xl md:text-6xl lg:text-7xl font-thin tracking-wide leading-tight drop-shadow-[0_0_25px_rgba(255,255,255,0.3)] animate-float-slow">
+           <p className="text-transparent bg-clip-text bg-gradient-to-b from-white via-white to-white/60 text-4xl md:text-6xl lg:text-7xl font-thin tracking-wide leading-tight drop-shadow-[0_0_25px_rgba(255,255,255,0.3)] motion-safe:animate-float-slow" lang={phraseLocale}>
              {currentPhrase}
            </p>
            <div className={`
@@ -198,6 +886,18 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Formation Picker, or the planet's fact card while exploring */}
+      {planet ? (
+        <PlanetFactCard planet={planet} onChange={travelTo} onClose={() => setPlanet(null)} />
+      ) : (
+        <FormationPicker 
+          formation={formation} 
+          onChange={setFormation} 
+          showLabels={showLabels} 
+          onShowLabelsChange={setShowLabels} 
+        />
+      )}
+
       {/* Bottom Controls */}
       <div className="absolute bottom-10 left-0 w-full flex justify-center z-20 pointer-events-auto">
         <div className="flex flex-col items-center gap-4">
@@ -208,13 +908,14 @@ const App: React.FC = () => {
 
            <button 
             onClick={handleManualToggle}
+            aria-keyshortcuts="Space"
             className={`
               relative group flex items-center gap-3 px-8 py-3 rounded-full border transition-all duration-500 overflow-hidden
               ${isExpanded 
                 ? 'bg-blue-500/10 border-blue-400/30 text-blue-200 hover:bg-blue-500/20' 
                 : 'bg-white/5 border-white/10 text-white/80 hover:bg-white/10'
               }
-              backdrop-blur-md hover:scale-105 active:scale-95
+              backdrop-blur-md motion-safe:hover:scale-105 motion-safe:active:scale-95
             `}
           >
             {/* Button Glow Effect */}
@@ -241,8 +942,24 @@ const App: React.FC = () => {
       <CameraHandler 
         active={cameraActive} 
         onGestureDetected={handleGestureDetected} 
+        onOpennessDetected={handleOpennessDetected} 
+        onHandMoved={setHandPosition} 
+        onHandsTracked={handleHandsTracked} 
+        checkIntervalMs={visualSettings.cameraCheckIntervalMs} 
+        cameraAllowed={cameraAllowed} 
+        localOnly={localOnly} 
+        onRequestCamera={() => handleConsent(null)} 
+        linkMonitor={linkMonitor} 
+        diagnostics={diagnostics} 
       />
 
+      {cameraConsent === null && (
+        <ConsentScreen 
+          cloud={isCloudBackend(resolveRecognizerBackend(localOnlyEnforced))} 
+          onChoose={handleConsent} 
+        />
+      )}
+
     </div>
   );
 };
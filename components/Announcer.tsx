@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface AnnouncerProps {
+  phrase: string | null; // The revealed phrase, read out when it changes
+  status: string | null; // Gesture and state changes
+}
+
+// Visually hidden live regions for screen readers. Phrases and status updates get
+// separate regions so a quick status change can't cut a phrase off mid-sentence.
+const Announcer: React.FC<AnnouncerProps> = ({ phrase, status }) => (
+  <div className="sr-only">
+    <div aria-live="polite" aria-atomic="true">{phrase}</div>
+    <div role="status" aria-live="polite" aria-atomic="true">{status}</div>
+  </div>
+);
+
+export default Announcer;
@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Hand, RefreshCw, Trash2 } from 'lucide-react';
+import { CalibrationGesture, CalibrationProfile, GestureRecognizer } from '../types';
+import {
+  CALIBRATION_CAPTURE_INTERVAL_MS,
+  CALIBRATION_CHECK_FRAMES,
+  CALIBRATION_CHECK_SEQUENCE,
+  CALIBRATION_COUNTDOWN_MS,
+  CALIBRATION_GUIDE_BOX,
+  CALIBRATION_MIN_ACCURACY,
+  CALIBRATION_SAMPLES_PER_GESTURE
+} from '../constants';
+import { CalibrationCapture, buildCalibrationProfile, createCalibrationCapturer } from '../services/calibrationService';
+
+interface CalibrationWizardProps {
+  stream: MediaStream | null;
+  mirror: boolean;
+  cloud: boolean; // Examples will be sent with every cloud request
+  current: CalibrationProfile | null;
+  createRecognizer: (profile: CalibrationProfile) => GestureRecognizer; // Same backend as live recognition, for the check
+  onSave: (profile: CalibrationProfile) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type Step = 'intro' | 'capture' | 'check' | 'result';
+type CheckResult = 'hit' | 'miss' | 'error';
+
+const POSE_PROMPTS: Record<CalibrationGesture, string> = {
+  OPEN: 'Open hand, fingers spread',
+  CLOSED: 'Closed fist'
+};
+
+const buttonClassName = "flex items-center justify-center gap-2 py-2 px-4 rounded-full border text-xs uppercase tracking-widest transition-all duration-300";
+
+// Resolves false if the run was cancelled while waiting
+const wait = (ms: number, run: { cancelled: boolean }) =>
+  new Promise<boolean>(resolve => setTimeout(() => resolve(!run.cancelled), ms));
+
+// Hold open, hold closed, then a short check with the calibrated recognizer.
+// Nothing is stored until the result is saved.
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  stream,
+  mirror,
+  cloud,
+  current,
+  createRecognizer,
+  onSave,
+  onClear,
+  onClose
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const runRef = useRef({ cancelled: false });
+  const [step, setStep] = useState<Step>('intro');
+  const [pose, setPose] = useState<CalibrationGesture>('OPEN');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [captured, setCaptured] = useState<number>(0);
+  const [results, setResults] = useState<CheckResult[]>([]);
+  const [candidate, setCandidate] = useState<CalibrationProfile | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null); // Why the last check request got no answer
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => () => {
+    runRef.current.cancelled = true;
+  }, []);
+
+  const countDown = async (run: { cancelled: boolean }) => {
+    for (let seconds = Math.ceil(CALIBRATION_COUNTDOWN_MS / 1000); seconds > 0; seconds--) {
+      setCountdown(seconds);
+      if (!await wait(1000, run)) return false;
+    }
+    setCountdown(null);
+    return true;
+  };
+
+  const grabFrame = (): HTMLCanvasElement | null => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!video || !canvas || !context || video.videoWidth === 0) return null;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    context.drawImage(video, 0, 0);
+    return canvas;
+  };
+
+  const checkProfile = async (profile: CalibrationProfile, run: { cancelled: boolean }) => {
+    const recognizer = createRecognizer(profile);
+    const checked: CheckResult[] = [];
+    try {
+      await recognizer.init();
+      for (const expected of CALIBRATION_CHECK_SEQUENCE) {
+        setPose(expected);
+        if (!await countDown(run)) return null;
+
+        let result: CheckResult = 'error';
+        for (let i = 0; i < CALIBRATION_CHECK_FRAMES; i++) {
+          const frame = grabFrame();
+          const outcome = frame ? await recognizer.classify(frame) : null;
+          if (run.cancelled) return null;
+          if (outcome?.ok) result = outcome.response.gesture === expected ? 'hit' : 'miss';
+          setCheckError(outcome?.ok === false ? outcome.error.message : null);
+          if (!await wait(CALIBRATION_CAPTURE_INTERVAL_MS, run)) return null;
+        }
+        checked.push(result);
+        setResults([...checked]);
+      }
+    } finally {
+      recognizer.dispose();
+    }
+    return checked;
+  };
+
+  const start = async () => {
+    runRef.current.cancelled = true;
+    const run = { cancelled: false };
+    runRef.current = run;
+    setResults([]);
+    setCandidate(null);
+    setCheckError(null);
+    setStep('capture');
+
+    const capture = createCalibrationCapturer();
+    const captures: CalibrationCapture[] = [];
+    for (const gesture of ['OPEN', 'CLOSED'] as CalibrationGesture[]) {
+      setPose(gesture);
+      setCaptured(0);
+      if (!await countDown(run)) return;
+
+      for (let i = 0; i < CALIBRATION_SAMPLES_PER_GESTURE; i++) {
+        const sample = videoRef.current ? capture(videoRef.current, gesture) : null;
+        if (sample) captures.push(sample);
+        setCaptured(i + 1);
+        if (!await wait(CALIBRATION_CAPTURE_INTERVAL_MS, run)) return;
+      }
+    }
+
+    const profile = buildCalibrationProfile(captures);
+    setStep('check');
+    const checked = await checkProfile(profile, run);
+    if (!checked) return;
+
+    // Requests that never came back say nothing about accuracy
+    const answered = checked.filter(result => result !== 'error');
+    const accuracy = answered.length > 0 ? answered.filter(result => result === 'hit').length / answered.length : null;
+    setCandidate({ ...profile, accuracy });
+    setStep('result');
+  };
+
+  const cancel = () => {
+    runRef.current.cancelled = true;
+    onClose();
+  };
+
+  const box = CALIBRATION_GUIDE_BOX;
+  const busy = step === 'capture' || step === 'check';
+  const accuracy = candidate?.accuracy ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm pointer-events-auto">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="calibration-title"
+        className="relative w-[30rem] max-w-[calc(100vw-2rem)] p-6 rounded-2xl bg-black/60 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden"
+      >
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500/50 via-purple-500/50 to-blue-500/50"></div>
+        <button
+          onClick={cancel}
+          className="absolute top-4 right-4 text-white/30 hover:text-white/80 transition-colors"
+          aria-label="Close Calibration"
+        >
+          <X size={14} />
+        </button>
+
+        <h2 id="calibration-title" className="text-white/90 font-light tracking-wider mb-4 text-lg">CALIBRATE GESTURES</h2>
+
+        {/* Preview with the box the hand should fill */}
+        <div className="relative rounded-xl overflow-hidden border border-white/10 bg-black mb-4">
+          <div className={`relative ${mirror ? 'scale-x-[-1]' : ''}`}>
+            <video ref={videoRef} autoPlay playsInline muted className="block w-full h-auto" />
+            <div
+              className={`absolute rounded-xl border-2 border-dashed transition-colors ${busy ? 'border-blue-300/80' : 'border-white/40'}`}
+              style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+            ></div>
+          </div>
+          {busy && (
+            <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/80 to-transparent text-center" aria-live="polite">
+              <div className="text-white/90 text-sm tracking-wider">{POSE_PROMPTS[pose]}</div>
+              <div className="text-white/50 text-xs font-mono mt-1">
+                {countdown !== null
+                  ? `Ready in ${countdown}`
+                  : step === 'capture' ? `Hold still · ${captured}/${CALIBRATION_SAMPLES_PER_GESTURE}` : checkError ?? 'Checking...'}
+              </div>
+            </div>
+          )}
+          {!stream && (
+            <div className="absolute inset-0 flex items-center justify-center text-white/50 text-xs">Start the camera to calibrate.</div>
+          )}
+        </div>
+        <canvas ref={canvasRef} className="hidden" />
+
+        {step === 'intro' && (
+          <div className="space-y-3 text-white/60 text-sm leading-relaxed">
+            <p>
+              Hold your hand inside the box, first open and then as a fist, while a few reference frames are taken.
+              A short check follows, so you can see how well it works.
+            </p>
+            <p className="text-white/40 text-xs">
+              {cloud
+                ? 'The reference crops of your hand are kept in this browser and sent with every request to the cloud recognizer as examples. The rest of the frame is never stored.'
+                : 'Recognition on this device is tuned to your skin tone and lighting. Crops of your hand are kept in this browser in case you switch to the cloud recognizer.'}
+            </p>
+            {current && (
+              <p className="text-white/40 text-xs">
+                Calibrated {new Date(current.createdAt).toLocaleDateString()}
+                {current.accuracy !== null && `, ${Math.round(current.accuracy * 100)}% in the check`}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {(step === 'check' || step === 'result') && (
+          <div className="flex gap-1.5 mb-3" aria-label="Check results">
+            {CALIBRATION_CHECK_SEQUENCE.map((expected, index) => {
+              const result = results[index];
+              return (
+                <div
+                  key={index}
+                  title={POSE_PROMPTS[expected]}
+                  className={`flex-1 h-1.5 rounded-full ${
+                    result === 'hit' ? 'bg-emerald-400/80' : result === 'miss' ? 'bg-red-400/80' : result === 'error' ? 'bg-amber-400/60' : 'bg-white/10'
+                  }`}
+                ></div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 'result' && candidate && (
+          <div className="space-y-3 text-white/60 text-sm leading-relaxed">
+            <p aria-live="polite">
+              {accuracy === null
+                ? `The recognizer couldn't be reached during the check${checkError ? ` (${checkError})` : ''}.`
+                : `${Math.round(accuracy * 100)}% of the check poses were recognised.`}
+              {accuracy !== null && accuracy < CALIBRATION_MIN_ACCURACY && ' Try again with your hand filling the box and the room evenly lit.'}
+            </p>
+            {!candidate.local && (
+              <p className="text-white/40 text-xs">
+                The on-device recognizer couldn't tell your open hand from your fist here, so it keeps its defaults.
+              </p>
+            )}
+            <div className="flex gap-2">
+              {candidate.examples.map((example, index) => (
+                <img
+                  key={index}
+                  src={example.image}
+                  alt={POSE_PROMPTS[example.gesture]}
+                  className={`h-16 rounded-lg border border-white/10 ${mirror ? 'scale-x-[-1]' : ''}`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-5 flex flex-wrap justify-end gap-2">
+          {step === 'intro' && current && (
+            <button
+              onClick={onClear}
+              className={`${buttonClassName} mr-auto bg-white/5 border-white/10 text-white/60 hover:bg-white/10`}
+            >
+              <Trash2 size={12} />
+              Clear
+            </button>
+          )}
+          {(step === 'intro' || step === 'result') && (
+            <button
+              onClick={start}
+              disabled={!stream}
+              className={`${buttonClassName} bg-white/5 border-white/10 text-white/70 hover:bg-white/10 disabled:opacity-40`}
+            >
+              {step === 'intro' ? <Hand size={12} /> : <RefreshCw size={12} />}
+              {step === 'intro' ? 'Start' : 'Try again'}
+            </button>
+          )}
+          {step === 'result' && candidate && (
+            <button
+              autoFocus
+              onClick={() => onSave(candidate)}
+              className={`${buttonClassName} bg-white/10 border-white/20 text-white/90 hover:bg-white/20`}
+            >
+              Save
+            </button>
+          )}
+          {busy && (
+            <button
+              onClick={cancel}
+              className={`${buttonClassName} bg-white/5 border-white/10 text-white/60 hover:bg-white/10`}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
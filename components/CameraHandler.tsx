@@ -1,95 +1,445 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Camera, CameraOff, RefreshCw } from 'lucide-react';
-import { detectGesture } from '../services/visionService';
-import { GestureState, GeminiVisionResponse } from '../types';
-import { CAMERA_CHECK_INTERVAL_MS } from '../constants';
+import { Camera, CameraOff, RefreshCw, Circle, Square, Upload, X, CloudUpload, Cpu, SwitchCamera, Hand } from 'lucide-react';
+import { createRecognizer, isCloudBackend, resolveRecognizerBackend } from '../services/recognizerService';
+import { createGestureStabilizer, gesturesToDispatch } from '../services/gestureStabilizer';
+import { createHandTracker } from '../services/handTrackerService';
+import {
+  SessionRecorder,
+  createSessionRecorder,
+  createReplayRecognizer,
+  decodeFrameImage,
+  downloadSession,
+  loadSessionFromUrl,
+  parseSession
+} from '../services/sessionService';
+import { LinkMonitor } from '../services/linkHealthService';
+import { Diagnostics } from '../services/diagnosticsService';
+import { SamplingMode, createFrameSampler, createMotionDetector } from '../services/motionGateService';
+import {
+  cameraErrorOf,
+  classifyCameraError,
+  listCameras,
+  loadCameraPreferences,
+  openCamera,
+  saveCameraPreferences,
+  stopStream,
+  streamDeviceId
+} from '../services/cameraService';
+import { loadCalibration, saveCalibration } from '../services/calibrationService';
+import CameraPicker from './CameraPicker';
+import CalibrationWizard from './CalibrationWizard';
+import { CalibrationProfile, CameraDevice, CameraError, CameraPreferences, GestureState, GestureRecognizer, HandPosition, RecognizerBackend, RecordedSession, TrackedHand, VisionResult } from '../types';
+import { CAMERA_CHECK_INTERVAL_MS, GESTURE_MIN_CONFIDENCE, MOTION_PROBE_INTERVAL_MS, REPLAY_QUERY_PARAM } from '../constants';
 
 interface CameraHandlerProps {
   onGestureDetected: (state: GestureState) => void;
+  onOpennessDetected?: (openness: number) => void;
+  onHandMoved?: (position: HandPosition | null) => void; // null when the hand is lost
+  onHandsTracked?: (hands: TrackedHand[]) => void; // Every hand in view, for the two-hand modes
   active: boolean;
+  replaySession?: RecordedSession | null; // Play a recorded session instead of the live camera
+  checkIntervalMs?: number; // How often a frame is classified
+  cameraAllowed?: boolean; // False until the visitor has agreed to the camera
+  localOnly?: boolean; // Never use a recognizer that uploads frames
+  onRequestCamera?: () => void; // Asked for the camera without consent, e.g. to show the consent screen again
+  linkMonitor?: LinkMonitor; // Paces cloud requests and accounts for them
+  diagnostics?: Diagnostics; // Times every request for the diagnostics HUD
 }
 
-const CameraHandler: React.FC<CameraHandlerProps> = ({ onGestureDetected, active }) => {
+const SAMPLING_LABELS: Record<SamplingMode, string> = {
+  active: 'Watching for gestures',
+  idle: 'Scene is still: checking occasionally',
+  paused: 'Paused while the tab is hidden'
+};
+
+const CameraHandler: React.FC<CameraHandlerProps> = ({
+  onGestureDetected,
+  onOpennessDetected,
+  onHandMoved,
+  onHandsTracked,
+  active,
+  replaySession = null,
+  checkIntervalMs = CAMERA_CHECK_INTERVAL_MS,
+  cameraAllowed = true,
+  localOnly = false,
+  onRequestCamera,
+  linkMonitor,
+  diagnostics
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [hasPermission, setHasPermission] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const intervalRef = useRef<number | null>(null);
+  const recognizerRef = useRef<GestureRecognizer | null>(null);
+  const stabilizerRef = useRef(createGestureStabilizer());
+  const trackerRef = useRef(createHandTracker());
+  const motionRef = useRef(createMotionDetector());
+  const samplerRef = useRef(createFrameSampler());
+  const [sampling, setSampling] = useState<SamplingMode>('active');
+  const [uploading, setUploading] = useState<boolean>(false); // Recognizer sends frames off the device
+  const [framesSent, setFramesSent] = useState<number>(0);
+
+  // Camera device and stream lifecycle
+  const streamRef = useRef<MediaStream | null>(null);
+  const openIdRef = useRef<number>(0); // Bumped on every open and close, so a slow open can't revive a stopped camera
+  const [cameraError, setCameraError] = useState<CameraError | null>(null);
+  const [cameraPrefs, setCameraPrefs] = useState<CameraPreferences>(loadCameraPreferences);
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [showPicker, setShowPicker] = useState<boolean>(false);
+  const cameraPrefsRef = useRef(cameraPrefs);
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(loadCalibration);
+  const [calibrating, setCalibrating] = useState<boolean>(false);
+  cameraPrefsRef.current = cameraPrefs;
+
+  // Record & replay
+  const replayUrl = useRef(new URLSearchParams(window.location.search).get(REPLAY_QUERY_PARAM)).current;
+  const [replay, setReplay] = useState<RecordedSession | null>(replaySession);
+  const [replayPending, setReplayPending] = useState<boolean>(!!replayUrl);
+  const [replayRun, setReplayRun] = useState<number>(0);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The analysis loop outlives renders, so read the latest callbacks through a ref
+  const callbacksRef = useRef({ onGestureDetected, onOpennessDetected, onHandMoved, onHandsTracked });
+  callbacksRef.current = { onGestureDetected, onOpennessDetected, onHandMoved, onHandsTracked };
+
+  useEffect(() => {
+    if (replaySession) setReplay(replaySession);
+  }, [replaySession]);
 
   useEffect(() => {
+    if (!replayUrl) return;
+    loadSessionFromUrl(replayUrl)
+      .then(setReplay)
+      .catch((err) => setError(err.message))
+      .finally(() => setReplayPending(false));
+  }, [replayUrl]);
+
+  // The camera is only needed when we're not replaying, and only opens with consent
+  useEffect(() => {
+    if (replay || replayPending) return;
+    if (!cameraAllowed) {
+      setLoading(false);
+      return;
+    }
     startCamera();
     return () => stopCamera();
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay, replayPending, cameraAllowed, cameraPrefs.deviceId, cameraPrefs.resolution]);
+
+  // Cameras come and go (USB kiosks), and permission can be revoked from the browser UI.
+  // The listeners live for the component's lifetime and read the latest state through a ref.
+  const mediaEventsRef = useRef({ deviceChange: () => {}, permissionChange: (_state: PermissionState) => {} });
+  mediaEventsRef.current = {
+    deviceChange: async () => {
+      const available = await refreshDevices();
+      if (replay || !cameraAllowed) return;
+      const preferred = cameraPrefs.deviceId;
+      if (hasPermission && activeDeviceId && !available.some(d => d.deviceId === activeDeviceId)) {
+        // Track 'ended' isn't fired everywhere when a camera is unplugged
+        stopCamera();
+        setCameraError(cameraErrorOf('not-found'));
+      } else if (cameraError?.kind === 'not-found' && available.length > 0) {
+        startCamera();
+      } else if (hasPermission && preferred && preferred !== activeDeviceId && available.some(d => d.deviceId === preferred)) {
+        startCamera(); // The chosen camera is back
+      }
+    },
+    permissionChange: (state) => {
+      if (state === 'denied' && streamRef.current) {
+        stopCamera();
+        setCameraError(cameraErrorOf('denied'));
+      } else if (state === 'granted' && cameraError?.kind === 'denied' && cameraAllowed && !replay) {
+        startCamera();
+      }
+    }
+  };
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    const handleDeviceChange = () => mediaEventsRef.current.deviceChange();
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    refreshDevices();
+
+    let status: PermissionStatus | null = null;
+    let disposed = false;
+    const handlePermissionChange = () => status && mediaEventsRef.current.permissionChange(status.state);
+    // Not every browser can query the camera permission; the track 'ended' event still covers revocation there
+    navigator.permissions?.query({ name: 'camera' as PermissionName })
+      .then((result) => {
+        if (disposed) return;
+        status = result;
+        status.addEventListener('change', handlePermissionChange);
+      })
+      .catch(() => {});
+
+    return () => {
+      disposed = true;
+      mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+      status?.removeEventListener('change', handlePermissionChange);
+    };
   }, []);
 
+  // Recognizer backend is chosen at runtime (cloud or on-device), and again if local-only mode changes
+  useEffect(() => {
+    let recognizer: GestureRecognizer | null = null;
+    let disposed = false;
+
+    const start = (backend: RecognizerBackend) => {
+      try {
+        recognizer = createRecognizer(backend, {
+          localOnly,
+          calibration,
+          onFrameSent: () => setFramesSent(count => count + 1)
+        });
+        // A working backend replaces whatever error the last one left up
+        setError(null);
+        setUploading(isCloudBackend(backend));
+        diagnostics?.setBackend(backend);
+        linkMonitor?.setCloud(isCloudBackend(backend));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "No recognizer available.");
+        return;
+      }
+      const starting = recognizer;
+      starting.init()
+        .then(() => {
+          if (!disposed) recognizerRef.current = starting;
+        })
+        .catch((err) => {
+          console.error(`Recognizer '${backend}' failed to init:`, err);
+          if (disposed) return; // Already disposed by the cleanup
+          starting.dispose();
+          recognizer = null;
+          // A cloud backend that can't start hands over to the on-device one
+          if (isCloudBackend(backend)) {
+            start('local');
+            return;
+          }
+          setError(`Gesture recognition couldn't start: ${err instanceof Error ? err.message : err}`);
+        });
+    };
+    start(resolveRecognizerBackend(localOnly));
+
+    return () => {
+      disposed = true;
+      recognizerRef.current = null;
+      recognizer?.dispose();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [localOnly, calibration]);
+
   useEffect(() => {
-    if (active && hasPermission) {
+    // Calibration poses shouldn't drive the scene
+    if (active && hasPermission && !replay && !calibrating) {
       startAnalysisLoop();
     } else {
       stopAnalysisLoop();
     }
     return () => stopAnalysisLoop();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [active, hasPermission]);
+  }, [active, hasPermission, replay, checkIntervalMs, calibrating]);
 
+  // Coming back to the tab: the old result is stale, so look again straight away
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) return;
+      motionRef.current.reset();
+      samplerRef.current.reset();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (!replay || !active) return;
+    const run = { cancelled: false };
+    runReplay(replay, run);
+    return () => {
+      run.cancelled = true;
+      stabilizerRef.current.reset();
+      trackerRef.current.reset();
+      diagnostics?.setBackend(recognizerRef.current?.backend ?? null);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay, active, replayRun]);
+
+  const refreshDevices = async (): Promise<CameraDevice[]> => {
+    const available = await listCameras().catch(() => []);
+    setDevices(available);
+    return available;
+  };
+
+  // Always tears the old stream down first, so restarting never leaks a camera
   const startCamera = async () => {
+    stopCamera();
+    const openId = openIdRef.current;
     setLoading(true);
+    setCameraError(null);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-            width: { ideal: 320 }, // Low res is fine for gesture and faster
-            height: { ideal: 240 },
-            facingMode: 'user'
-        } 
-      });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setHasPermission(true);
+      const stream = await openCamera(cameraPrefsRef.current);
+      if (openId !== openIdRef.current) {
+        stopStream(stream); // Stopped or restarted while we waited
+        return;
       }
+      streamRef.current = stream;
+      // Unplugged, or permission revoked
+      stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => handleTrackEnded(openId)));
+      if (videoRef.current) videoRef.current.srcObject = stream;
+      setActiveDeviceId(streamDeviceId(stream));
+      setHasPermission(true);
+      refreshDevices(); // Labels are only readable once permission is granted
     } catch (err) {
-      setError("Camera access denied or unavailable.");
-      setHasPermission(false);
+      if (openId !== openIdRef.current) return;
+      setCameraError(classifyCameraError(err));
     } finally {
-      setLoading(false);
+      if (openId === openIdRef.current) setLoading(false);
     }
   };
 
   const stopCamera = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream;
-      stream.getTracks().forEach(track => track.stop());
-    }
+    openIdRef.current++;
+    stopStream(streamRef.current);
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setActiveDeviceId(null);
+    setHasPermission(false);
+  };
+
+  const handleTrackEnded = async (openId: number) => {
+    if (openId !== openIdRef.current) return; // We stopped it ourselves
+    stopCamera();
+    const permission = await navigator.permissions?.query({ name: 'camera' as PermissionName }).catch(() => null);
+    setCameraError(cameraErrorOf(permission?.state === 'denied' ? 'denied' : 'not-found'));
+    refreshDevices();
+  };
+
+  const changeCameraPrefs = (preferences: CameraPreferences) => {
+    setCameraPrefs(preferences);
+    saveCameraPreferences(preferences);
+  };
+
+  const saveProfile = (profile: CalibrationProfile | null) => {
+    setCalibration(profile);
+    saveCalibration(profile);
+    setCalibrating(false);
+  };
+
+  // The wizard's check runs through the same backend, privacy wrapper and link accounting as live frames
+  const createCheckRecognizer = (profile: CalibrationProfile): GestureRecognizer => {
+    const recognizer = createRecognizer(resolveRecognizerBackend(localOnly), {
+      localOnly,
+      calibration: profile,
+      onFrameSent: () => setFramesSent(count => count + 1)
+    });
+    return {
+      ...recognizer,
+      classify: async (frame) => {
+        // Paced like live frames: nothing goes out while the link is offline, backing off or over budget
+        if (linkMonitor && !linkMonitor.canSend()) {
+          return { ok: false, error: { kind: 'network', message: 'Link unavailable' } };
+        }
+        linkMonitor?.begin();
+        const outcome = await recognizer.classify(frame);
+        if (outcome.ok === false) {
+          linkMonitor?.fail(outcome.error);
+        } else {
+          linkMonitor?.succeed(outcome.usage);
+        }
+        return outcome;
+      }
+    };
+  };
+
+  // Shared by the live loop and replay: classify what's on the canvas and feed the stabilizer
+  const analyzeFrame = (recognizer: GestureRecognizer, canvas: HTMLCanvasElement) => {
+    const ticket = stabilizerRef.current.begin();
+    const recorder = recorderRef.current;
+    const image = recorder ? canvas.toDataURL('image/jpeg', 0.5) : null;
+    // Replayed responses never touch the network
+    const monitor = recognizer.backend === 'replay' ? undefined : linkMonitor;
+    monitor?.begin();
+    const startedAt = diagnostics?.requestStarted();
+
+    // We don't await here to block the UI, but we handle the promise.
+    // Requests overlap, so the stabilizer drops any response older than one already applied.
+    recognizer.classify(canvas).then((outcome: VisionResult) => {
+      if (startedAt !== undefined) diagnostics?.requestFinished(startedAt, outcome);
+      // A failed request says nothing about the hand, so the last known state stands
+      if (outcome.ok === false) {
+        monitor?.fail(outcome.error);
+        return;
+      }
+      monitor?.succeed(outcome.usage);
+      const { response } = outcome;
+      if (recorder && image) recorder.record(ticket.capturedAt, image, response);
+
+      const result = stabilizerRef.current.accept(ticket, response);
+      if (!result) return;
+      samplerRef.current.observe(result.state === null || response.confidence < GESTURE_MIN_CONFIDENCE);
+
+      const { onGestureDetected, onOpennessDetected, onHandMoved, onHandsTracked } = callbacksRef.current;
+      for (const gesture of gesturesToDispatch(result)) {
+          onGestureDetected(gesture);
+      }
+      if (onOpennessDetected && typeof result.openness === 'number') {
+          onOpennessDetected(result.openness);
+      }
+      onHandMoved?.(result.position ?? null);
+      // Recordings from before multi-hand support only describe one hand
+      onHandsTracked?.(trackerRef.current.update(response.hands ?? (response.gesture !== 'NONE' ? [response] : [])));
+    });
   };
 
+  // Probes the camera often but only classifies when the picture has changed,
+  // the last result is still settling, or the idle refresh is due
   const startAnalysisLoop = () => {
     if (intervalRef.current) clearInterval(intervalRef.current);
+    motionRef.current.reset();
+    samplerRef.current.reset();
     
-    intervalRef.current = window.setInterval(async () => {
-      if (!videoRef.current || !canvasRef.current) return;
+    intervalRef.current = window.setInterval(() => {
+      const recognizer = recognizerRef.current;
+      const video = videoRef.current;
+      if (!video || !canvasRef.current || !recognizer) return;
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+      // Nobody is looking: don't spend a call on it
+      if (document.hidden) {
+        setSampling('paused');
+        return;
+      }
+      // Backing off, tripped, or out of budget: skip this tick
+      if (linkMonitor && !linkMonitor.canSend()) return;
+
+      const now = performance.now();
+      const sampler = samplerRef.current;
+      const motion = motionRef.current.measure(video);
+      const sample = sampler.shouldSample(motion, now, checkIntervalMs);
+      setSampling(sampler.mode(now));
+      if (!sample) return;
       
       const context = canvasRef.current.getContext('2d');
       if (!context) return;
 
       // Draw current video frame to canvas
-      canvasRef.current.width = videoRef.current.videoWidth;
-      canvasRef.current.height = videoRef.current.videoHeight;
-      context.drawImage(videoRef.current, 0, 0);
-
-      // Convert to base64 jpeg (lower quality for speed)
-      const dataUrl = canvasRef.current.toDataURL('image/jpeg', 0.5);
-
-      // Call Gemini
-      // We don't await here to block the UI, but we handle the promise
-      detectGesture(dataUrl).then((response: GeminiVisionResponse) => {
-        if (response.gesture !== 'NONE') {
-            // Map Gemini response to our enum
-            const state = response.gesture === 'OPEN' ? GestureState.OPEN : GestureState.CLOSED;
-            onGestureDetected(state);
-        }
-      });
+      canvasRef.current.width = video.videoWidth;
+      canvasRef.current.height = video.videoHeight;
+      context.drawImage(video, 0, 0);
 
-    }, CAMERA_CHECK_INTERVAL_MS);
+      // The result will describe this frame, so later motion is measured against it
+      motionRef.current.markReference();
+      sampler.sampled(now);
+
+      // Classify with whichever backend is active
+      analyzeFrame(recognizer, canvasRef.current);
+
+    }, MOTION_PROBE_INTERVAL_MS);
   };
 
   const stopAnalysisLoop = () => {
@@ -97,6 +447,65 @@ const CameraHandler: React.FC<CameraHandlerProps> = ({ onGestureDetected, active
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
+    stabilizerRef.current.reset();
+    trackerRef.current.reset();
+  };
+
+  // Feed recorded frames through the same pipeline, on their original schedule.
+  // Frames are processed strictly in order so the replay recognizer stays in lockstep.
+  const runReplay = async (session: RecordedSession, run: { cancelled: boolean }) => {
+    const recognizer = createReplayRecognizer(session);
+    await recognizer.init();
+    diagnostics?.setBackend(recognizer.backend);
+    stabilizerRef.current.reset();
+    trackerRef.current.reset();
+    const startedAt = performance.now();
+
+    for (const frame of session.frames) {
+      const wait = frame.t - (performance.now() - startedAt);
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+      const image = await decodeFrameImage(frame).catch(() => null);
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (run.cancelled) return;
+      if (!canvas || !context) continue;
+
+      if (image) {
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        context.drawImage(image, 0, 0);
+      }
+      analyzeFrame(recognizer, canvas);
+    }
+  };
+
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      downloadSession(recorderRef.current.finish());
+      recorderRef.current = null;
+      setIsRecording(false);
+    } else {
+      recorderRef.current = createSessionRecorder(recognizerRef.current?.backend ?? 'local');
+      setIsRecording(true);
+    }
+  };
+
+  const handleSessionFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setReplay(parseSession(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read session file.");
+    }
+  };
+
+  const exitReplay = () => {
+    setReplay(null);
+    setReplayPending(false);
   };
 
   return (
@@ -104,7 +513,7 @@ const CameraHandler: React.FC<CameraHandlerProps> = ({ onGestureDetected, active
        {/* Debug view (minimized) */}
        <div className={`
          relative overflow-hidden rounded-xl border border-white/20 bg-black/50 backdrop-blur-md transition-all duration-500
-         ${hasPermission ? 'w-32 h-24' : 'w-0 h-0'}
+         ${hasPermission || replay ? 'w-32 h-24' : 'w-0 h-0'}
          ${active ? 'opacity-100' : 'opacity-40'}
        `}>
           <video 
@@ -112,16 +521,65 @@ const CameraHandler: React.FC<CameraHandlerProps> = ({ onGestureDetected, active
             autoPlay 
             playsInline 
             muted 
-            className="w-full h-full object-cover transform scale-x-[-1]" // Mirror
+            className={`w-full h-full object-cover transform ${cameraPrefs.mirror ? 'scale-x-[-1]' : ''} ${replay ? 'hidden' : ''}`}
+          />
+          {/* Hidden frame buffer, shown as the preview while replaying */}
+          <canvas 
+            ref={canvasRef} 
+            className={replay ? `w-full h-full object-cover transform ${cameraPrefs.mirror ? 'scale-x-[-1]' : ''}` : 'hidden'} 
           />
-          <canvas ref={canvasRef} className="hidden" />
           
           {/* Status Indicator */}
           <div className="absolute top-2 right-2 flex gap-1">
-             <div className={`w-2 h-2 rounded-full ${active ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
+             {isRecording && <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>}
+             <div 
+               className={`w-2 h-2 rounded-full ${!active ? 'bg-red-500' : replay || sampling === 'active' ? 'bg-green-500 animate-pulse' : sampling === 'idle' ? 'bg-green-500/60' : 'bg-white/40'}`} 
+               title={replay || !active ? undefined : SAMPLING_LABELS[sampling]} 
+             ></div>
           </div>
+          {replay && (
+            <div className="absolute bottom-1 left-2 text-[10px] font-mono uppercase tracking-widest text-white/70">
+              Replay
+            </div>
+          )}
        </div>
 
+       {/* Where frames go: counted when they leave the device */}
+       {hasPermission && !replay && (
+         <div 
+           className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-black/50 border border-white/10 backdrop-blur-md text-[10px] font-mono uppercase tracking-widest text-white/60"
+           title={uploading ? 'Redacted frames sent to the cloud recognizer' : 'Frames are analysed on this device'}
+         >
+           {uploading ? <CloudUpload size={10} /> : <Cpu size={10} />}
+           {uploading ? `${framesSent} sent` : 'On-device'}
+         </div>
+       )}
+
+       {showPicker && !replay && (
+         <div className="pointer-events-auto">
+           <CameraPicker 
+             devices={devices} 
+             preferences={cameraPrefs} 
+             activeDeviceId={activeDeviceId} 
+             onChange={changeCameraPrefs} 
+             onClose={() => setShowPicker(false)} 
+           />
+         </div>
+       )}
+
+       {calibrating && (
+         <CalibrationWizard 
+           stream={streamRef.current} 
+           mirror={cameraPrefs.mirror} 
+           cloud={uploading} 
+           current={calibration} 
+           createRecognizer={createCheckRecognizer} 
+           onSave={saveProfile} 
+           onClear={() => saveProfile(null)} 
+           onClose={() => setCalibrating(false)} 
+         />
+       )}
+
        {/* Camera Controls (Pointer events enabled for buttons) */}
        <div className="pointer-events-auto flex gap-2">
          {error && (
@@ -129,17 +587,98 @@ const CameraHandler: React.FC<CameraHandlerProps> = ({ onGestureDetected, active
               {error}
             </div>
          )}
+
+         {cameraError && !replay && (
+            <div role="alert" className="flex items-center gap-2 bg-red-500/80 text-white text-xs pl-3 pr-1 py-1 rounded-full backdrop-blur">
+              {cameraError.message}
+              <button 
+                onClick={startCamera} 
+                className="flex items-center gap-1 bg-white/20 hover:bg-white/30 px-2 py-0.5 rounded-full transition-colors"
+              >
+                <RefreshCw size={10} />
+                Retry
+              </button>
+            </div>
+         )}
          
-         {!hasPermission && !loading && !error && (
+         {!hasPermission && !loading && !error && !cameraError && !replay && (
              <button 
-             onClick={startCamera}
+             onClick={cameraAllowed ? startCamera : onRequestCamera}
+             aria-label="Start Camera"
              className="bg-white/10 hover:bg-white/20 text-white p-3 rounded-full backdrop-blur-md transition-all"
            >
              <CameraOff size={20} />
            </button>
          )}
 
-         {hasPermission && (
+         {hasPermission && !replay && (
+            <button 
+              onClick={toggleRecording} 
+              className={`bg-white/10 hover:bg-white/20 p-2 rounded-full backdrop-blur-md transition-all ${isRecording ? 'text-red-400' : 'text-white/50 hover:text-white'}`}
+              title={isRecording ? "Stop & Export Session" : "Record Session"}
+            >
+              {isRecording ? <Square size={14} /> : <Circle size={14} />}
+            </button>
+         )}
+
+         {!replay && (
+            <button 
+              onClick={() => fileInputRef.current?.click()} 
+              className="bg-white/10 hover:bg-white/20 text-white/50 hover:text-white p-2 rounded-full backdrop-blur-md transition-all"
+              title="Replay Session File"
+            >
+              <Upload size={14} />
+            </button>
+         )}
+         <input 
+           ref={fileInputRef} 
+           type="file" 
+           accept="application/json,.json" 
+           className="hidden" 
+           onChange={handleSessionFile} 
+         />
+
+         {replay && (
+            <>
+              <button 
+                onClick={() => setReplayRun(run => run + 1)} 
+                className="bg-white/10 hover:bg-white/20 text-white/50 hover:text-white p-2 rounded-full backdrop-blur-md transition-all"
+                title="Restart Replay"
+              >
+                <RefreshCw size={14} />
+              </button>
+              <button 
+                onClick={exitReplay} 
+                className="bg-white/10 hover:bg-white/20 text-white/50 hover:text-white p-2 rounded-full backdrop-blur-md transition-all"
+                title="Back to Live Camera"
+              >
+                <X size={14} />
+              </button>
+            </>
+         )}
+
+         {cameraAllowed && !replay && (
+            <button 
+              onClick={() => setShowPicker(!showPicker)} 
+              className={`bg-white/10 hover:bg-white/20 p-2 rounded-full backdrop-blur-md transition-all ${showPicker ? 'text-white' : 'text-white/50 hover:text-white'}`}
+              title="Camera Settings"
+              aria-expanded={showPicker}
+            >
+              <SwitchCamera size={14} />
+            </button>
+         )}
+
+         {hasPermission && !replay && (
+            <button 
+              onClick={() => setCalibrating(true)} 
+              className={`bg-white/10 hover:bg-white/20 p-2 rounded-full backdrop-blur-md transition-all ${calibration ? 'text-blue-300/80 hover:text-white' : 'text-white/50 hover:text-white'}`}
+              title={calibration ? "Recalibrate Gestures" : "Calibrate Gestures"}
+            >
+              <Hand size={14} />
+            </button>
+         )}
+
+         {hasPermission && !replay && (
             <button 
               onClick={startCamera} 
               className="bg-white/10 hover:bg-white/20 text-white/50 hover:text-white p-2 rounded-full backdrop-blur-md transition-all"
@@ -0,0 +1,83 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { CameraDevice, CameraPreferences, CameraResolutionId } from '../types';
+import { CAMERA_RESOLUTIONS } from '../constants';
+
+interface CameraPickerProps {
+  devices: CameraDevice[];
+  preferences: CameraPreferences;
+  activeDeviceId: string | null; // The camera actually open, which may differ if the preferred one is missing
+  onChange: (preferences: CameraPreferences) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "w-40 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/90 focus:outline-none focus:border-white/30";
+
+const CameraPicker: React.FC<CameraPickerProps> = ({ devices, preferences, activeDeviceId, onChange, onClose }) => {
+  const preferredMissing = preferences.deviceId !== null && !devices.some(d => d.deviceId === preferences.deviceId);
+  const selected = preferredMissing ? '' : preferences.deviceId ?? activeDeviceId ?? '';
+
+  return (
+    <div className="w-72 p-4 rounded-2xl bg-black/60 backdrop-blur-xl border border-white/10 shadow-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white/90 font-light tracking-wider text-sm">CAMERA</h3>
+        <button
+          onClick={onClose}
+          className="text-white/30 hover:text-white/80 transition-colors"
+          aria-label="Close Camera Settings"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/70 text-xs uppercase tracking-widest">Device</span>
+          <select
+            value={selected}
+            onChange={(e) => onChange({ ...preferences, deviceId: e.target.value || null })}
+            className={selectClassName}
+          >
+            {(devices.length === 0 || preferredMissing) && (
+              <option value="" className="bg-neutral-900">{devices.length === 0 ? 'No camera' : 'Default'}</option>
+            )}
+            {devices.map(device => (
+              <option key={device.deviceId} value={device.deviceId} className="bg-neutral-900">{device.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/70 text-xs uppercase tracking-widest">Resolution</span>
+          <select
+            value={preferences.resolution}
+            onChange={(e) => onChange({ ...preferences, resolution: e.target.value as CameraResolutionId })}
+            className={selectClassName}
+          >
+            {CAMERA_RESOLUTIONS.map(resolution => (
+              <option key={resolution.id} value={resolution.id} className="bg-neutral-900">{resolution.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <span className="text-white/70 text-xs uppercase tracking-widest">Mirror preview</span>
+          <input
+            type="checkbox"
+            checked={preferences.mirror}
+            onChange={(e) => onChange({ ...preferences, mirror: e.target.checked })}
+            className="accent-blue-400"
+          />
+        </label>
+      </div>
+
+      {preferredMissing && (
+        <p className="text-white/40 text-[11px] mt-3 leading-relaxed">
+          The chosen camera isn't connected. Using the default until it's back.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CameraPicker;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { X, Image as ImageIcon, CreditCard, Video, Circle, Square } from 'lucide-react';
+import { CaptureMode } from '../types';
+import { CLIP_DURATIONS_S } from '../constants';
+
+interface CapturePanelProps {
+  mode: CaptureMode;
+  onModeChange: (mode: CaptureMode) => void;
+  clipDuration: number; // Seconds
+  onClipDurationChange: (seconds: number) => void;
+  canRecord: boolean;
+  recording: boolean;
+  busy: boolean;
+  status: string | null;
+  onCapture: () => void;
+  onClose: () => void;
+}
+
+const MODES: { id: CaptureMode; label: string; icon: React.ReactNode }[] = [
+  { id: 'screenshot', label: 'Image', icon: <ImageIcon size={14} /> },
+  { id: 'card', label: 'Card', icon: <CreditCard size={14} /> },
+  { id: 'clip', label: 'Clip', icon: <Video size={14} /> }
+];
+
+const CapturePanel: React.FC<CapturePanelProps> = ({
+  mode,
+  onModeChange,
+  clipDuration,
+  onClipDurationChange,
+  canRecord,
+  recording,
+  busy,
+  status,
+  onCapture,
+  onClose
+}) => {
+  const clipUnavailable = mode === 'clip' && !canRecord;
+
+  return (
+    <div className="absolute top-32 right-8 w-80 z-20 pointer-events-auto animate-slide-in-left">
+      <div className="relative p-6 rounded-2xl bg-black/40 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500/50 via-purple-500/50 to-blue-500/50"></div>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-white/30 hover:text-white/80 transition-colors"
+          aria-label="Close Capture"
+        >
+          <X size={14} />
+        </button>
+
+        <h3 className="text-white/90 font-light tracking-wider mb-4 text-lg">CAPTURE</h3>
+
+        <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Capture type">
+          {MODES.map(m => (
+            <button
+              key={m.id}
+              onClick={() => onModeChange(m.id)}
+              disabled={recording}
+              role="radio"
+              aria-checked={mode === m.id}
+              className={`
+                flex flex-col items-center gap-1 py-2 rounded-lg border text-[10px] uppercase tracking-widest transition-all duration-300 disabled:opacity-40
+                ${mode === m.id
+                  ? 'bg-blue-500/10 border-blue-400/30 text-blue-200'
+                  : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10 hover:text-white/80'
+                }
+              `}
+            >
+              {m.icon}
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-white/40 text-xs mt-3 leading-relaxed">
+          {mode === 'screenshot' && 'A high-resolution PNG of the scene with the phrase on it.'}
+          {mode === 'card' && 'A share card with the phrase over a frozen frame of the nebula.'}
+          {mode === 'clip' && (canRecord ? 'A WebM video of the scene and phrase.' : "This browser can't record video.")}
+        </p>
+
+        {mode === 'clip' && canRecord && (
+          <label className="flex items-center justify-between gap-4 mt-3">
+            <span className="text-white/70 text-xs uppercase tracking-widest">Length</span>
+            <select
+              value={clipDuration}
+              onChange={(e) => onClipDurationChange(Number(e.target.value))}
+              disabled={recording}
+              className="w-40 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/90 focus:outline-none focus:border-white/30"
+            >
+              {CLIP_DURATIONS_S.map(seconds => (
+                <option key={seconds} value={seconds} className="bg-neutral-900">{seconds} seconds</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <button
+          onClick={onCapture}
+          disabled={busy || clipUnavailable}
+          className={`
+            mt-4 w-full flex items-center justify-center gap-2 py-2 rounded-full border text-xs uppercase tracking-widest transition-all duration-300 disabled:opacity-40
+            ${recording
+              ? 'bg-red-500/20 border-red-400/40 text-red-200'
+              : 'bg-white/10 border-white/20 text-white/90 hover:bg-white/20'
+            }
+          `}
+        >
+          {recording ? <Square size={12} /> : <Circle size={12} />}
+          {recording ? 'Stop' : mode === 'clip' ? 'Record' : 'Capture'}
+        </button>
+
+        {status && <p className="text-white/50 text-xs mt-3 text-center" role="status">{status}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CapturePanel;
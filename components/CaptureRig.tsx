@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { addAfterEffect, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FrameCapturer } from '../types';
+import { CAPTURE_MAX_EDGE } from '../constants';
+
+interface CaptureRigProps {
+  onReady: (capturer: FrameCapturer | null) => void;
+}
+
+// Lives inside the Canvas so captures can render on demand; renders nothing.
+// The drawing buffer isn't preserved, so every read happens straight after a render.
+const CaptureRig: React.FC<CaptureRigProps> = ({ onReady }) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+
+  useEffect(() => {
+    const capturer: FrameCapturer = {
+      canvas: gl.domElement,
+      still: (scale) => {
+        const ratio = gl.getPixelRatio();
+        const size = gl.getSize(new THREE.Vector2());
+        const target = Math.min(ratio * scale, CAPTURE_MAX_EDGE / Math.max(size.x, size.y));
+
+        // Point sizes are in buffer pixels; tell the particles so they keep their on-screen look
+        scene.userData.captureScale = target / ratio;
+        gl.setPixelRatio(target);
+        gl.render(scene, camera);
+
+        const copy = document.createElement('canvas');
+        copy.width = gl.domElement.width;
+        copy.height = gl.domElement.height;
+        copy.getContext('2d')?.drawImage(gl.domElement, 0, 0);
+
+        delete scene.userData.captureScale;
+        gl.setPixelRatio(ratio);
+        gl.render(scene, camera);
+        return copy;
+      },
+      onFrame: (callback) => addAfterEffect(() => callback())
+    };
+    onReady(capturer);
+    return () => onReady(null);
+  }, [gl, scene, camera, onReady]);
+
+  return null;
+};
+
+export default CaptureRig;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Camera, ShieldCheck, EyeOff } from 'lucide-react';
+import { CameraConsent } from '../types';
+
+interface ConsentScreenProps {
+  cloud: boolean; // Whether allowing the camera would send frames to a cloud recognizer
+  onChoose: (consent: CameraConsent) => void;
+}
+
+// Shown before the camera is ever opened. Nothing is captured until someone chooses.
+const ConsentScreen: React.FC<ConsentScreenProps> = ({ cloud, onChoose }) => (
+  <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm pointer-events-auto">
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="consent-title"
+      aria-describedby="consent-body"
+      className="relative w-[28rem] max-w-[calc(100vw-2rem)] p-8 rounded-2xl bg-black/60 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden"
+    >
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-500/50 via-purple-500/50 to-orange-500/50"></div>
+
+      <h2 id="consent-title" className="text-white/90 font-light tracking-wider mb-4 text-lg">CAMERA ACCESS</h2>
+
+      <div id="consent-body" className="space-y-3 text-white/60 text-sm leading-relaxed">
+        <p>Saturn Nebula watches your hand through the camera so you can shape the stardust with gestures.</p>
+        {cloud ? (
+          <p className="flex gap-3">
+            <EyeOff size={18} className="shrink-0 mt-0.5 text-blue-300/80" />
+            <span>
+              Gestures are recognised by Google's Gemini service. Before a frame leaves this device,
+              everything but your hand is blurred. Frames aren't kept by this app, and the counter
+              under the preview shows how many have been sent.
+            </span>
+          </p>
+        ) : (
+          <p className="flex gap-3">
+            <ShieldCheck size={18} className="shrink-0 mt-0.5 text-emerald-300/80" />
+            <span>Gestures are recognised on this device. No camera frames are sent anywhere.</span>
+          </p>
+        )}
+        <p className="text-white/40 text-xs">You can still use the buttons and keyboard without the camera.</p>
+      </div>
+
+      <div className="mt-6 flex flex-col gap-2">
+        <button
+          autoFocus
+          onClick={() => onChoose('granted')}
+          className="flex items-center justify-center gap-2 py-2.5 rounded-full border bg-white/10 border-white/20 text-white/90 hover:bg-white/20 text-xs uppercase tracking-widest transition-all duration-300"
+        >
+          <Camera size={14} />
+          Allow camera
+        </button>
+        {cloud && (
+          <button
+            onClick={() => onChoose('local')}
+            className="flex items-center justify-center gap-2 py-2.5 rounded-full border bg-white/5 border-white/10 text-white/70 hover:bg-white/10 text-xs uppercase tracking-widest transition-all duration-300"
+          >
+            <ShieldCheck size={14} />
+            On this device only
+          </button>
+        )}
+        <button
+          onClick={() => onChoose('declined')}
+          className="py-2 text-white/40 hover:text-white/80 text-xs uppercase tracking-widest transition-colors"
+        >
+          Continue without camera
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ConsentScreen;
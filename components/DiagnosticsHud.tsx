@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { DiagnosticsSnapshot, FrameGesture } from '../types';
+import { DIAGNOSTICS_TIMELINE_LENGTH, PERF_STATS_INTERVAL_MS } from '../constants';
+import { Diagnostics, exportDiagnostics } from '../services/diagnosticsService';
+import { LinkMonitor } from '../services/linkHealthService';
+import { getQualityTier } from '../services/performanceService';
+
+interface DiagnosticsHudProps {
+  diagnostics: Diagnostics;
+  linkMonitor?: LinkMonitor;
+  onClose: () => void;
+}
+
+const GESTURE_COLORS: Record<FrameGesture, string> = {
+  OPEN: 'bg-emerald-400',
+  CLOSED: 'bg-blue-400',
+  NONE: 'bg-white/20',
+  POINT: 'bg-purple-400',
+  PINCH: 'bg-purple-400',
+  THUMBS_UP: 'bg-orange-400',
+  PEACE: 'bg-orange-400'
+};
+
+const ms = (value: number) => `${Math.round(value)} ms`;
+
+const Section: React.FC<{ title: string; rows: [string, string][] }> = ({ title, rows }) => (
+  <div className="mb-3">
+    <div className="text-white/30 uppercase tracking-widest mb-1">{title}</div>
+    {rows.map(([label, value]) => (
+      <div key={label} className="flex justify-between gap-6">
+        <span className="uppercase tracking-widest text-white/40">{label}</span>
+        <span>{value}</span>
+      </div>
+    ))}
+  </div>
+);
+
+// Developer readout of the vision and render pipelines (D, or ?debug)
+const DiagnosticsHud: React.FC<DiagnosticsHudProps> = ({ diagnostics, linkMonitor, onClose }) => {
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot>(diagnostics.snapshot);
+
+  useEffect(() => {
+    const timer = setInterval(() => setSnapshot(diagnostics.snapshot()), PERF_STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [diagnostics]);
+
+  const stats = snapshot.performance;
+  const tier = stats ? getQualityTier(stats.tier) : null;
+  const { latency, lastResponse } = snapshot;
+
+  const render: [string, string][] = [
+    ['Tier', tier ? `${tier.name}${stats!.pinned ? ' (pinned)' : ''}` : '–'],
+    // No average yet right after a tier change or a stall
+    ['FPS', stats?.frameMs ? stats.fps.toFixed(0) : '–'],
+    ['Frame', stats?.frameMs ? `${stats.frameMs.toFixed(1)} ms` : '–'],
+    ['Particles', snapshot.particles.toLocaleString()],
+    ['Stars', tier ? tier.starCount.toLocaleString() : '–'],
+    ['DPR', tier ? Math.min(window.devicePixelRatio, tier.maxDpr).toFixed(2) : '–'],
+    ['Effects', tier ? [tier.curlNoise && 'curl', tier.heatGlow && 'glow'].filter(Boolean).join(' + ') || 'basic' : '–'],
+    ['uExpansion', snapshot.expansion.map(value => value.toFixed(3)).join(' / ')]
+  ];
+
+  const vision: [string, string][] = [
+    ['Backend', snapshot.backend ?? '–'],
+    ['In flight', String(snapshot.inFlight)],
+    ['Requests', `${snapshot.requests}${snapshot.errors ? ` (${snapshot.errors} failed)` : ''}`],
+    ['p50 / p90', latency ? `${ms(latency.p50)} / ${ms(latency.p90)}` : '–'],
+    ['p99 / max', latency ? `${ms(latency.p99)} / ${ms(latency.max)}` : '–']
+  ];
+  if (snapshot.lastError) vision.push(['Last error', snapshot.lastError.kind]);
+
+  const age = snapshot.lastResponseAt !== null ? `${((snapshot.uptimeMs - snapshot.lastResponseAt) / 1000).toFixed(1)}s ago` : '';
+
+  return (
+    <div className="absolute top-24 right-8 z-20 w-72 pointer-events-auto bg-black/60 border border-white/10 rounded-lg px-3 py-2 backdrop-blur-md font-mono text-[10px] text-white/70">
+      <div className="flex items-center justify-between mb-2">
+        <span className="uppercase tracking-widest text-white/60">Diagnostics</span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => exportDiagnostics(diagnostics.snapshot(), linkMonitor?.health() ?? null)}
+            className="text-white/40 hover:text-white/90 transition-colors"
+            title="Export as JSON"
+          >
+            <Download size={12} />
+          </button>
+          <button
+            onClick={onClose}
+            className="text-white/40 hover:text-white/90 transition-colors"
+            aria-label="Close Diagnostics"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+
+      <Section title="Render" rows={render} />
+      <Section title="Vision" rows={vision} />
+
+      <div className="mb-3">
+        <div className="flex justify-between text-white/30 uppercase tracking-widest mb-1">
+          <span>Last response</span>
+          <span className="normal-case tracking-normal">{age}</span>
+        </div>
+        {lastResponse ? (
+          <>
+            <div className="flex justify-between gap-6">
+              <span className="uppercase tracking-widest text-white/40">{lastResponse.gesture}</span>
+              <span>{(lastResponse.confidence * 100).toFixed(0)}%</span>
+            </div>
+            <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap break-all text-[9px] text-white/50">
+              {JSON.stringify(lastResponse, null, 1)}
+            </pre>
+          </>
+        ) : (
+          <div className="text-white/40">–</div>
+        )}
+      </div>
+
+      {/* Newest on the right; brighter = more confident */}
+      <div className="text-white/30 uppercase tracking-widest mb-1">Timeline</div>
+      <div className="flex gap-px h-4" aria-label="Recent classifications">
+        {Array.from({ length: DIAGNOSTICS_TIMELINE_LENGTH - snapshot.timeline.length }, (_, i) => (
+          <div key={`empty-${i}`} className="flex-1 h-full bg-white/5"></div>
+        ))}
+        {snapshot.timeline.map((entry, i) => (
+          <div
+            key={`${entry.t}-${i}`}
+            className={`flex-1 h-full ${GESTURE_COLORS[entry.gesture]}`}
+            style={{ opacity: 0.25 + 0.75 * entry.confidence }}
+            title={`${entry.gesture} ${(entry.confidence * 100).toFixed(0)}% at ${(entry.t / 1000).toFixed(1)}s`}
+          ></div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsHud;
@@ -0,0 +1,54 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { PlanetId } from '../types';
+import { FLY_THROUGH_DURATION_S, FLY_THROUGH_PULLBACK, FLY_THROUGH_SWEEP } from '../constants';
+
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>;
+
+interface FlyThroughRigProps {
+  planet: PlanetId | null;
+  direction: 1 | -1; // 1 = outward from the Sun
+  enabled: boolean;
+}
+
+const offset = new THREE.Vector3();
+
+// Flies the default OrbitControls to the next planet: a swing round the target that pulls
+// back and comes in again while the particles morph. Entering or leaving the explorer doesn't fly.
+const FlyThroughRig: React.FC<FlyThroughRigProps> = ({ planet, direction, enabled }) => {
+  const controls = useThree(state => state.controls) as OrbitControlsImpl | null;
+  const flightRef = useRef<{ elapsed: number; eased: number; distance: number; direction: number } | null>(null);
+  const planetRef = useRef(planet);
+
+  useEffect(() => {
+    const previous = planetRef.current;
+    planetRef.current = planet;
+    if (!controls || !enabled || previous === null || planet === null || previous === planet) return;
+    // A flight still under way keeps its distance, so quick swipes don't keep backing off
+    flightRef.current = { elapsed: 0, eased: 0, distance: flightRef.current?.distance ?? controls.getDistance(), direction };
+  }, [planet, direction, controls, enabled]);
+
+  useFrame((_, delta) => {
+    const flight = flightRef.current;
+    if (!flight || !controls) return;
+
+    flight.elapsed = Math.min(FLY_THROUGH_DURATION_S, flight.elapsed + delta);
+    const t = flight.elapsed / FLY_THROUGH_DURATION_S;
+    const eased = t * t * (3 - 2 * t);
+    controls.setAzimuthalAngle(controls.getAzimuthalAngle() + (eased - flight.eased) * FLY_THROUGH_SWEEP * flight.direction);
+    flight.eased = eased;
+
+    offset.copy(controls.object.position).sub(controls.target);
+    offset.setLength(flight.distance * (1 + FLY_THROUGH_PULLBACK * Math.sin(Math.PI * t)));
+    controls.object.position.copy(controls.target).add(offset);
+    controls.update();
+
+    if (t >= 1) flightRef.current = null;
+  });
+
+  return null;
+};
+
+export default FlyThroughRig;
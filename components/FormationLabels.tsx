@@ -0,0 +1,49 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { FormationLabel } from '../types';
+
+interface FormationLabelsProps {
+  labels: FormationLabel[];
+  visible: boolean;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Names for parts of a formation. Rendered inside the particles' object, so they share its tilt;
+// labels on an orbit are turned with the same clock the simulation uses, so they stay on their moon.
+const FormationLabels: React.FC<FormationLabelsProps> = ({ labels, visible }) => {
+  const groupsRef = useRef<(THREE.Group | null)[]>([]);
+
+  useFrame((state) => {
+    labels.forEach((label, i) => {
+      const group = groupsRef.current[i];
+      if (!group || !label.orbit) return;
+      group.position.set(...label.position).applyAxisAngle(UP, label.orbit * state.clock.elapsedTime);
+    });
+  });
+
+  return (
+    <>
+      {labels.map((label, i) => (
+        <group key={label.text} ref={(group) => { groupsRef.current[i] = group; }} position={label.position}>
+          <Html zIndexRange={[5, 0]} pointerEvents="none">
+            <div
+              className={`flex items-center gap-1.5 whitespace-nowrap -translate-x-[3px] -translate-y-1/2 transition-opacity duration-700 ${visible ? 'opacity-100' : 'opacity-0'}`}
+              aria-hidden={!visible}
+            >
+              <span className="w-1.5 h-1.5 rounded-full bg-white/70"></span>
+              <span>
+                <span className="block text-[10px] uppercase tracking-[0.2em] text-white/80 drop-shadow">{label.text}</span>
+                {label.detail && <span className="block text-[9px] font-mono text-white/40">{label.detail}</span>}
+              </span>
+            </div>
+          </Html>
+        </group>
+      ))}
+    </>
+  );
+};
+
+export default FormationLabels;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Tag } from 'lucide-react';
+import { FormationId } from '../types';
+import { FORMATIONS, getFormation } from '../services/formationService';
+
+interface FormationPickerProps {
+  formation: FormationId;
+  onChange: (formation: FormationId) => void;
+  showLabels: boolean;
+  onShowLabelsChange: (show: boolean) => void;
+}
+
+const FormationPicker: React.FC<FormationPickerProps> = ({ formation, onChange, showLabels, onShowLabelsChange }) => (
+  <div className="absolute bottom-10 left-8 z-30 pointer-events-auto flex flex-col gap-2">
+    <div className="flex items-center gap-3 ml-1">
+      <p className="text-white/30 text-[10px] uppercase tracking-widest">Formation</p>
+      {/* Only formations with named parts have labels to show */}
+      {getFormation(formation).labels && (
+        <button
+          onClick={() => onShowLabelsChange(!showLabels)}
+          className={`flex items-center gap-1 text-[10px] uppercase tracking-widest transition-colors ${showLabels ? 'text-blue-200/80' : 'text-white/30 hover:text-white/60'}`}
+          aria-pressed={showLabels}
+          title="Show labels (L)"
+        >
+          <Tag size={10} />
+          Labels
+        </button>
+      )}
+    </div>
+    <div className="flex flex-wrap gap-2 max-w-xs">
+      {FORMATIONS.map(f => (
+        <button
+          key={f.id}
+          onClick={() => onChange(f.id)}
+          className={`
+            px-3 py-1.5 rounded-full border text-[10px] uppercase tracking-[0.15em] backdrop-blur-md transition-all duration-300
+            ${formation === f.id
+              ? 'bg-blue-500/10 border-blue-400/30 text-blue-200'
+              : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10 hover:text-white/80'
+            }
+          `}
+          aria-pressed={formation === f.id}
+        >
+          {f.name}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default FormationPicker;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { BindableGesture, GestureAction, GestureBindings, InteractionMode } from '../types';
+import { DEFAULT_GESTURE_BINDINGS, GESTURE_ACTION_LABELS, GESTURE_LABELS, INTERACTION_MODE_LABELS } from '../constants';
+
+interface GestureSettingsProps {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+  handSteersCamera: boolean;
+  onHandSteersCameraChange: (enabled: boolean) => void;
+  interactionMode: InteractionMode;
+  onInteractionModeChange: (mode: InteractionMode) => void;
+  onClose: () => void;
+  children?: React.ReactNode; // Extra sections, rendered below the bindings
+}
+
+const GestureSettings: React.FC<GestureSettingsProps> = ({
+  bindings,
+  onChange,
+  handSteersCamera,
+  onHandSteersCameraChange,
+  interactionMode,
+  onInteractionModeChange,
+  onClose,
+  children
+}) => {
+  const gestures = Object.keys(GESTURE_LABELS) as BindableGesture[];
+  const actions = Object.keys(GESTURE_ACTION_LABELS) as GestureAction[];
+  const modes = Object.keys(INTERACTION_MODE_LABELS) as InteractionMode[];
+
+  const updateBinding = (gesture: BindableGesture, action: GestureAction) => {
+    onChange({ ...bindings, [gesture]: action });
+  };
+
+  return (
+    <div className="absolute top-32 right-8 w-80 z-20 pointer-events-auto animate-slide-in-left">
+      <div className="relative p-6 rounded-2xl bg-black/40 backdrop-blur-xl border border-white/10 shadow-2xl overflow-y-auto max-h-[calc(100vh-10rem)]">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500/50 via-purple-500/50 to-blue-500/50"></div>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-white/30 hover:text-white/80 transition-colors"
+          aria-label="Close Settings"
+        >
+          <X size={14} />
+        </button>
+
+        <h3 className="text-white/90 font-light tracking-wider mb-4 text-lg">GESTURE SETTINGS</h3>
+
+        <div className="grid grid-cols-3 gap-2 mb-2" role="radiogroup" aria-label="Interaction mode">
+          {modes.map(mode => (
+            <button
+              key={mode}
+              onClick={() => onInteractionModeChange(mode)}
+              role="radio"
+              aria-checked={interactionMode === mode}
+              className={`
+                py-2 rounded-lg border text-[10px] uppercase tracking-widest transition-all duration-300
+                ${interactionMode === mode
+                  ? 'bg-blue-500/10 border-blue-400/30 text-blue-200'
+                  : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10 hover:text-white/80'
+                }
+              `}
+            >
+              {INTERACTION_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <p className="text-white/40 text-xs mb-4 leading-relaxed">
+          {interactionMode === 'single' && 'One hand drives the whole scene.'}
+          {interactionMode === 'twoHands' && 'Your left hand moves the planet, your right hand the rings.'}
+          {interactionMode === 'twoVisitors' && 'The planet splits in two: one for the person on the left, one for the right.'}
+        </p>
+
+        <div className="space-y-2">
+          {gestures.map(gesture => (
+            <label key={gesture} className="flex items-center justify-between gap-4">
+              <span className="text-white/70 text-xs uppercase tracking-widest">{GESTURE_LABELS[gesture]}</span>
+              <select
+                value={bindings[gesture]}
+                onChange={(e) => updateBinding(gesture, e.target.value as GestureAction)}
+                className="w-40 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/90 focus:outline-none focus:border-white/30"
+              >
+                {actions.map(action => (
+                  <option key={action} value={action} className="bg-neutral-900">
+                    {GESTURE_ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <label className="mt-5 flex items-center justify-between gap-4 cursor-pointer">
+          <span className="text-white/70 text-xs uppercase tracking-widest">Hand Steers Camera</span>
+          <input
+            type="checkbox"
+            checked={handSteersCamera}
+            onChange={(e) => onHandSteersCameraChange(e.target.checked)}
+            className="accent-blue-400"
+          />
+        </label>
+
+        <button
+          onClick={() => onChange({ ...DEFAULT_GESTURE_BINDINGS })}
+          className="mt-5 flex items-center gap-2 text-white/40 hover:text-white/80 text-xs uppercase tracking-widest transition-colors"
+        >
+          <RotateCcw size={12} />
+          Reset to defaults
+        </button>
+
+        {children && (
+          <div className="mt-6 pt-5 border-t border-white/10">
+            {children}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GestureSettings;
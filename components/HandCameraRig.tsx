@@ -0,0 +1,45 @@
+import React, { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { HandPosition } from '../types';
+import { HAND_AZIMUTH_RANGE, HAND_POLAR_RANGE, HAND_CAMERA_SMOOTHING } from '../constants';
+
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>;
+
+interface HandCameraRigProps {
+  handPosition: HandPosition | null;
+  enabled: boolean;
+}
+
+// Swings the default OrbitControls around the planet as the hand moves across the frame.
+// Angles are relative to where the camera was when the hand appeared, so there's no snap.
+const HandCameraRig: React.FC<HandCameraRigProps> = ({ handPosition, enabled }) => {
+  const controls = useThree(state => state.controls) as OrbitControlsImpl | null;
+  const baseRef = useRef<{ azimuth: number; polar: number } | null>(null);
+
+  useFrame(() => {
+    if (!controls || !enabled || !handPosition) {
+      baseRef.current = null;
+      return;
+    }
+
+    if (!baseRef.current) {
+      baseRef.current = { azimuth: controls.getAzimuthalAngle(), polar: controls.getPolarAngle() };
+    }
+
+    // Mirrored x: moving your hand to your right swings the camera to the right
+    const targetAzimuth = baseRef.current.azimuth + ((1 - handPosition.x) - 0.5) * HAND_AZIMUTH_RANGE;
+    const targetPolar = baseRef.current.polar + (handPosition.y - 0.5) * HAND_POLAR_RANGE;
+
+    const azimuth = controls.getAzimuthalAngle();
+    const polar = controls.getPolarAngle();
+    // Azimuth wraps at ±PI, take the short way round
+    const azimuthDelta = Math.atan2(Math.sin(targetAzimuth - azimuth), Math.cos(targetAzimuth - azimuth));
+    controls.setAzimuthalAngle(azimuth + azimuthDelta * HAND_CAMERA_SMOOTHING);
+    controls.setPolarAngle(polar + (targetPolar - polar) * HAND_CAMERA_SMOOTHING);
+  });
+
+  return null;
+};
+
+export default HandCameraRig;
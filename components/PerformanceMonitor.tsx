@@ -0,0 +1,34 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PerformanceStats, QualityTierId } from '../types';
+import { createPerformanceGovernor } from '../services/performanceService';
+import { PERF_STATS_INTERVAL_MS } from '../constants';
+
+interface PerformanceMonitorProps {
+  initialTier: QualityTierId;
+  pinned?: boolean;
+  onTierChange: (tier: QualityTierId) => void;
+  onStats?: (stats: PerformanceStats) => void; // Throttled, for the diagnostics HUD
+}
+
+// Lives inside the Canvas to time real frames; renders nothing
+const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({ initialTier, pinned = false, onTierChange, onStats }) => {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const governor = useMemo(() => createPerformanceGovernor(initialTier, { pinned }), [pinned]);
+  const lastStatsRef = useRef(0);
+
+  useFrame((_, delta) => {
+    const now = performance.now();
+    const next = governor.sample(delta * 1000, now);
+    if (next) onTierChange(next);
+
+    if (onStats && now - lastStatsRef.current > PERF_STATS_INTERVAL_MS) {
+      lastStatsRef.current = now;
+      onStats(governor.stats());
+    }
+  });
+
+  return null;
+};
+
+export default PerformanceMonitor;
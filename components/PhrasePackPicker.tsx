@@ -0,0 +1,99 @@
+import React from 'react';
+import { PhrasePack, PhrasePackInfo, PhrasePreferences, PhraseSource } from '../types';
+import { PHRASE_MOODS } from '../constants';
+import { packCategories, packLocales, selectLocale } from '../services/phraseService';
+
+interface PhrasePackPickerProps {
+  packs: PhrasePackInfo[];
+  activePack: PhrasePack;
+  preferences: PhrasePreferences;
+  onChange: (preferences: PhrasePreferences) => void;
+  error?: string | null;
+}
+
+const selectClassName = "w-40 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/90 focus:outline-none focus:border-white/30";
+
+const PhrasePackPicker: React.FC<PhrasePackPickerProps> = ({ packs, activePack, preferences, onChange, error }) => {
+  const locales = packLocales(activePack);
+  const categories = packCategories(activePack);
+  const autoLocale = selectLocale(locales);
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between gap-4">
+        <span className="text-white/70 text-xs uppercase tracking-widest">Source</span>
+        <select
+          value={preferences.source}
+          onChange={(e) => onChange({ ...preferences, source: e.target.value as PhraseSource })}
+          className={selectClassName}
+        >
+          <option value="pack" className="bg-neutral-900">Pack</option>
+          <option value="generated" className="bg-neutral-900">Generated</option>
+        </select>
+      </label>
+
+      {preferences.source === 'generated' && (
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/70 text-xs uppercase tracking-widest">Mood</span>
+          <select
+            value={preferences.mood ?? ''}
+            onChange={(e) => onChange({ ...preferences, mood: e.target.value || null })}
+            className={selectClassName}
+          >
+            <option value="" className="bg-neutral-900">Any</option>
+            {PHRASE_MOODS.map(mood => (
+              <option key={mood} value={mood} className="bg-neutral-900">{mood}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="flex items-center justify-between gap-4">
+        <span className="text-white/70 text-xs uppercase tracking-widest">Pack</span>
+        <select
+          value={preferences.packId}
+          onChange={(e) => onChange({ ...preferences, packId: e.target.value, locale: null, category: null })}
+          className={selectClassName}
+        >
+          {packs.map(pack => (
+            <option key={pack.id} value={pack.id} className="bg-neutral-900">{pack.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-4">
+        <span className="text-white/70 text-xs uppercase tracking-widest">Language</span>
+        <select
+          value={preferences.locale ?? ''}
+          onChange={(e) => onChange({ ...preferences, locale: e.target.value || null })}
+          className={selectClassName}
+        >
+          <option value="" className="bg-neutral-900">Auto ({autoLocale})</option>
+          {locales.map(locale => (
+            <option key={locale} value={locale} className="bg-neutral-900">{locale}</option>
+          ))}
+        </select>
+      </label>
+
+      {categories.length > 1 && (
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-white/70 text-xs uppercase tracking-widest">Category</span>
+          <select
+            value={preferences.category ?? ''}
+            onChange={(e) => onChange({ ...preferences, category: e.target.value || null })}
+            className={selectClassName}
+          >
+            <option value="" className="bg-neutral-900">All</option>
+            {categories.map(category => (
+              <option key={category} value={category} className="bg-neutral-900">{category}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {error && <p className="text-red-300/80 text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default PhrasePackPicker;
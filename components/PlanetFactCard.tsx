@@ -0,0 +1,108 @@
+import React from 'react';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { PlanetId, PlanetInfo } from '../types';
+import { SOLAR_SYSTEM_PLANETS } from '../constants';
+import { getPlanet, stepPlanet } from '../services/formationService';
+
+interface PlanetFactCardProps {
+  planet: PlanetId;
+  onChange: (planet: PlanetId) => void;
+  onClose: () => void;
+}
+
+const KM_PER_AU = 149.6e6;
+
+const formatDay = (planet: PlanetInfo) => {
+  const days = planet.dayHours / 24;
+  const length = planet.dayHours < 48
+    ? `${planet.dayHours} hours`
+    : `${days < 100 ? days.toFixed(1) : Math.round(days)} days`;
+  return planet.axialTiltDeg > 90 ? `${length}, backwards` : length;
+};
+
+const formatYear = (planet: PlanetInfo) => planet.yearDays < 730
+  ? `${Math.round(planet.yearDays)} days`
+  : `${(planet.yearDays / 365.25).toFixed(1)} years`;
+
+const formatDistance = (planet: PlanetInfo) =>
+  `${Math.round(planet.distanceAu * KM_PER_AU / 1e6).toLocaleString()} million km`;
+
+// The solar system explorer's card: what the planet on screen is, and the way to the next one
+const PlanetFactCard: React.FC<PlanetFactCardProps> = ({ planet, onChange, onClose }) => {
+  const info = getPlanet(planet);
+  const index = SOLAR_SYSTEM_PLANETS.findIndex(p => p.id === planet);
+
+  const facts: [string, string][] = [
+    ['Diameter', `${info.diameterKm.toLocaleString()} km`],
+    ['Day', formatDay(info)],
+    ['Year', formatYear(info)],
+    ['From the Sun', formatDistance(info)],
+    ['Moons', String(info.moons)],
+    ['Tilt', `${info.axialTiltDeg}°`]
+  ];
+
+  return (
+    <div className="absolute top-32 right-8 w-72 z-20 pointer-events-auto">
+      <div className="relative p-6 rounded-2xl bg-black/40 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-500/50 via-blue-500/50 to-purple-500/50"></div>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-white/30 hover:text-white/80 transition-colors"
+          aria-label="Leave Solar System Explorer"
+        >
+          <X size={14} />
+        </button>
+
+        <p className="text-white/30 text-[10px] uppercase tracking-widest">
+          Planet {index + 1} of {SOLAR_SYSTEM_PLANETS.length}
+        </p>
+        <h3 className="text-white/90 font-light tracking-wider mt-1 mb-3 text-lg uppercase">{info.name}</h3>
+        <p className="text-white/60 text-sm leading-relaxed mb-4">{info.summary}</p>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          {facts.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="uppercase tracking-widest text-[10px] text-white/40 pt-px">{label}</dt>
+              <dd className="text-white/80 font-mono">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        {/* Order from the Sun; each dot jumps straight there */}
+        <div className="flex items-center justify-between mt-5 pt-4 border-t border-white/10">
+          <button
+            onClick={() => onChange(stepPlanet(planet, -1))}
+            className="p-1 text-white/40 hover:text-white/90 transition-colors"
+            aria-label="Previous Planet"
+            aria-keyshortcuts="ArrowLeft"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <div className="flex gap-1.5">
+            {SOLAR_SYSTEM_PLANETS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => onChange(p.id)}
+                className={`w-2 h-2 rounded-full transition-colors ${p.id === planet ? 'bg-white/90' : 'bg-white/20 hover:bg-white/50'}`}
+                aria-label={p.name}
+                aria-current={p.id === planet}
+                title={p.name}
+              ></button>
+            ))}
+          </div>
+          <button
+            onClick={() => onChange(stepPlanet(planet, 1))}
+            className="p-1 text-white/40 hover:text-white/90 transition-colors"
+            aria-label="Next Planet"
+            aria-keyshortcuts="ArrowRight"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+        <p className="text-white/30 text-[10px] uppercase tracking-widest text-center mt-2">Swipe or use ← → to travel</p>
+      </div>
+    </div>
+  );
+};
+
+export default PlanetFactCard;
@@ -1,71 +1,95 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useLayoutEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { GestureState } from '../types';
+import { GestureState, ExpansionMode, HandPosition, HandGroupControl, FormationBuffers, FormationId, FormationOptions, InteractionMode, QualityTier, VisualSettings } from '../types';
+import { generateFormation, generateNebulaPositions, getFormation } from '../services/formationService';
+import { getQualityTier } from '../services/performanceService';
+import { generateTextTargets } from '../services/textFormationService';
+import { createParticleSimulation, ParticleSimulation, SimulationUniforms } from '../services/particleSimulation';
+import { Diagnostics } from '../services/diagnosticsService';
+import FormationLabels from './FormationLabels';
 import { 
-  PARTICLE_COUNT, 
-  SATURN_RADIUS, 
-  RING_INNER_RADIUS, 
-  RING_OUTER_RADIUS, 
-  EXPANSION_SCALE 
+  MAX_PARTICLE_COUNT, 
+  PARTICLE_REFERENCE_COUNT,
+  DEFAULT_QUALITY_TIER,
+  DEFAULT_VISUAL_SETTINGS,
+  REDUCED_MOTION_SCALE,
+  SIM_BURST_DECAY,
+  SIM_MAX_DELTA,
+  DEFAULT_FORMATION,
+  FORMATION_MORPH_SPEED,
+  TEXT_BLEND_SPEED,
+  OPENNESS_SMOOTHING,
+  HAND_FORCE,
+  HAND_RADIUS,
+  HAND_SMOOTHING,
+  TWIN_BLEND_SPEED,
+  QUALITY_TIERS,
+  PHRASE_REVEAL_THRESHOLD
 } from '../constants';
 
 interface SaturnSceneProps {
   gestureState: GestureState;
   isExpanded: boolean;
+  expansionMode?: ExpansionMode;
+  openness?: number; // 0-1, only used in continuous mode
+  handPosition?: HandPosition | null; // Raw camera frame coords, null when no hand
+  formation?: FormationId;
+  phraseText?: string | null; // When set, the nebula spells this out
+  quality?: QualityTier;
+  settings?: VisualSettings;
+  reducedMotion?: boolean; // Calms turbulence and the burst
+  interactionMode?: InteractionMode;
+  handGroups?: HandGroupControl[] | null; // One per particle group in the two-hand modes; otherwise the props above drive both
+  diagnostics?: Diagnostics; // Receives the eased expansion and particle count every frame
+  showLabels?: boolean; // Names on formations that have them, while formed
+  onSimulationError?: (message: string | null) => void; // Called with null once a simulation runs
 }
 
+// Shape settings take a moment to regenerate, so wait for a slider to settle
+const RESHAPE_DEBOUNCE_MS = 150;
+const DEG = Math.PI / 180;
+
+// Positions come from the GPU simulation; this only draws them
 const vertexShader = `
-  uniform float uTime;
-  uniform float uExpansion;
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity; // w = how far this particle has expanded
+  uniform float uMorph;        // 0 = previous formation, 1 = current formation
+  uniform float uSizeScale;
+  uniform float uAlphaScale;
+  uniform float uHeatGlow;
+  uniform float uCaptureScale; // >1 while rendering a high-resolution capture
   
-  attribute vec3 aRandomPosition;
+  // aColor/aSize hold the formation we're morphing from, aTarget* the one we're morphing to
+  attribute vec2 aReference;   // This particle's texel in the simulation textures
   attribute float aSize;
+  attribute float aTargetSize;
   attribute vec3 aColor;
+  attribute vec3 aTargetColor;
   
   varying vec3 vColor;
   varying float vAlpha;
 
-  // Simple pseudo-random function
-  float random(vec2 st) {
-      return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
-  }
-
   void main() {
-    vColor = aColor;
-    
-    // Original position (Saturn) vs Target position (Nebula)
-    vec3 saturnPos = position;
-    vec3 nebulaPos = aRandomPosition;
-
-    // Add some organic movement to the Nebula state
-    // We use sin/cos based on time and position to create a "floating" effect
-    if (uExpansion > 0.01) {
-       float noiseFreq = 0.5;
-       float noiseAmp = 2.0;
-       nebulaPos.x += sin(uTime * 0.5 + aRandomPosition.y * noiseFreq) * noiseAmp;
-       nebulaPos.y += cos(uTime * 0.3 + aRandomPosition.x * noiseFreq) * noiseAmp;
-       nebulaPos.z += sin(uTime * 0.4 + aRandomPosition.z * noiseFreq) * noiseAmp;
-    }
+    vec3 pos = texture2D(tPosition, aReference).xyz;
+    vec4 velocity = texture2D(tVelocity, aReference);
+    float speed = length(velocity.xyz);
 
-    // Rotation logic for the Saturn state (Simulated here or in JS container)
-    // We'll keep the Saturn particles relatively stable but add a subtle breathing effect
-    if (uExpansion < 0.99) {
-        saturnPos.y += sin(uTime * 2.0 + position.x) * 0.1;
-    }
+    float m = smoothstep(0.0, 1.0, uMorph);
+    vColor = mix(aColor, aTargetColor, m);
+    float size = mix(aSize, aTargetSize, m) * uSizeScale;
 
-    // Interpolate positions
-    // Smoothstep creates a nicer transition curve
-    float t = smoothstep(0.0, 1.0, uExpansion);
-    vec3 finalPos = mix(saturnPos, nebulaPos, t);
+    // Fast particles run hot, so an explosion leaves bright streaks
+    vColor = mix(vColor, vec3(1.0, 0.92, 0.8), clamp(speed * 0.012, 0.0, 0.6) * uHeatGlow);
 
-    vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     
     // Size attenuation: particles are smaller when further away
-    gl_PointSize = aSize * (300.0 / -mvPosition.z);
+    gl_PointSize = size * uCaptureScale * (300.0 / -mvPosition.z);
     
     // Fade out slightly when expanding to look more ethereal
-    vAlpha = 1.0 - (t * 0.3);
+    float t = velocity.w;
+    vAlpha = (1.0 - (t * 0.3)) * uAlphaScale;
 
     gl_Position = projectionMatrix * mvPosition;
   }
@@ -90,141 +114,377 @@ const fragmentShader = `
   }
 `;
 
-const SaturnScene: React.FC<SaturnSceneProps> = ({ isExpanded }) => {
+const SaturnScene: React.FC<SaturnSceneProps> = ({
+  isExpanded,
+  expansionMode = 'toggle',
+  openness = 0,
+  handPosition = null,
+  formation = DEFAULT_FORMATION,
+  phraseText = null,
+  quality = getQualityTier(DEFAULT_QUALITY_TIER),
+  settings = DEFAULT_VISUAL_SETTINGS,
+  reducedMotion = false,
+  interactionMode = 'single',
+  handGroups = null,
+  diagnostics,
+  showLabels = true,
+  onSimulationError
+}) => {
+  const gl = useThree((state) => state.gl);
   const pointsRef = useRef<THREE.Points>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const handWorlds = useMemo(() => [new THREE.Vector3(), new THREE.Vector3()], []);
+  const handTarget = useMemo(() => new THREE.Vector3(), []);
+  const localInverse = useMemo(() => new THREE.Matrix4(), []);
   
-  // Uniforms reference to update in loop
-  const uniforms = useMemo(() => ({
+  // Uniforms driven every frame, shared by reference with the simulation
+  const simUniforms = useMemo<SimulationUniforms>(() => ({
     uTime: { value: 0 },
-    uExpansion: { value: 0 }
+    uExpansion: { value: new THREE.Vector2() },
+    uMorph: { value: 1 },
+    uHand: { value: [new THREE.Vector3(), new THREE.Vector3()] },
+    uHandStrength: { value: new THREE.Vector2() },
+    uHandForce: { value: HAND_FORCE },
+    uHandRadius: { value: HAND_RADIUS },
+    uTextMix: { value: 0 },
+    uTextToLocal: { value: new THREE.Matrix4() },
+    uBurst: { value: new THREE.Vector2() },
+    uTwin: { value: interactionMode === 'twoVisitors' ? 1 : 0 },
+    uTwinAxis: { value: new THREE.Vector3(1, 0, 0) },
+    uSpringFormed: { value: settings.springFormed },
+    uDamping: { value: settings.damping },
+    uCurlStrength: { value: settings.curlStrength }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }), []);
 
-  // Generate particle data
-  const { positions, randomPositions, colors, sizes } = useMemo(() => {
-    const pos = new Float32Array(PARTICLE_COUNT * 3);
-    const randPos = new Float32Array(PARTICLE_COUNT * 3);
-    const cols = new Float32Array(PARTICLE_COUNT * 3);
-    const siz = new Float32Array(PARTICLE_COUNT);
-
-    const colorSaturn1 = new THREE.Color('#EAD6B8'); // Sand
-    const colorSaturn2 = new THREE.Color('#C5A984'); // Darker Sand
-    const colorRing1 = new THREE.Color('#A89F91');   // Grey/Brown
-    const colorRing2 = new THREE.Color('#D3C1A5');   // Light Ring
-
-    let idx = 0;
-
-    // 1. Planet Sphere
-    const sphereCount = Math.floor(PARTICLE_COUNT * 0.35);
-    for (let i = 0; i < sphereCount; i++) {
-      const phi = Math.acos(-1 + (2 * i) / sphereCount);
-      const theta = Math.sqrt(sphereCount * Math.PI) * phi;
-      
-      const r = SATURN_RADIUS;
-      // Oblate spheroid
-      const x = r * Math.cos(theta) * Math.sin(phi);
-      const y = (r * Math.sin(theta) * Math.sin(phi)) * 0.9; 
-      const z = r * Math.cos(phi);
-
-      pos[idx] = x;
-      pos[idx+1] = y;
-      pos[idx+2] = z;
-
-      // Random target
-      randPos[idx] = (Math.random() - 0.5) * EXPANSION_SCALE * 2.5;
-      randPos[idx+1] = (Math.random() - 0.5) * EXPANSION_SCALE * 2.5;
-      randPos[idx+2] = (Math.random() - 0.5) * EXPANSION_SCALE * 2.5;
-
-      const c = i % 2 === 0 ? colorSaturn1 : colorSaturn2;
-      cols[idx] = c.r;
-      cols[idx+1] = c.g;
-      cols[idx+2] = c.b;
-
-      siz[i] = Math.random() * 0.4 + 0.2;
-      idx += 3;
+  // More particles means each one is smaller and fainter, so the overall glow stays the same.
+  // Eased in useFrame, so a quality change doesn't flash.
+  const density = PARTICLE_REFERENCE_COUNT / quality.simTextureSize ** 2;
+  const uniforms = useMemo(() => ({
+    tPosition: { value: null as THREE.Texture | null },
+    tVelocity: { value: null as THREE.Texture | null },
+    uMorph: simUniforms.uMorph,
+    uSizeScale: { value: Math.pow(density, 0.25) },
+    uAlphaScale: { value: Math.sqrt(density) },
+    uHeatGlow: { value: quality.heatGlow ? 1 : 0 },
+    uCaptureScale: { value: 1 }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }), [simUniforms]);
+  const textPlane = useMemo(() => new THREE.Matrix4(), []);
+  // Formations with a real tilt (the scale model) ignore the tilt settings
+  const { axialTiltDeg: fixedTilt, labels } = getFormation(formation);
+  const tiltX = fixedTilt === undefined ? settings.tiltX * DEG : 0;
+  const tiltZ = fixedTilt === undefined ? settings.tiltZ * DEG : fixedTilt * DEG;
+  const initialRotation = useMemo(() => new THREE.Euler(tiltX, 0, tiltZ), []);
+  const expansionTargetsRef = useRef([0, 0]);
+
+  // Generated formations are cached so revisiting one doesn't reshuffle it.
+  // They're built for the top tier; lower tiers use a prefix, which is an even sample.
+  const { saturnRadius, ringInnerRadius, ringOuterRadius, planetShare, ringOrbitSpeed, expansionScale } = settings;
+  const shapeOptions: FormationOptions = { saturnRadius, ringInnerRadius, ringOuterRadius, planetShare, ringOrbitSpeed };
+  const shapeKey = JSON.stringify(shapeOptions);
+  const shapeRef = useRef(shapeOptions);
+
+  const formationCache = useMemo(() => new Map<FormationId, FormationBuffers>(), []);
+  const getBuffers = (id: FormationId) => {
+    let buffers = formationCache.get(id);
+    if (!buffers) {
+      buffers = generateFormation(id, MAX_PARTICLE_COUNT, shapeRef.current);
+      formationCache.set(id, buffers);
     }
+    return buffers;
+  };
+
+  const targetFormationRef = useRef<FormationId>(formation);
+
+  // Render attributes: "from" and "to" colours and sizes live side by side so the shader can morph.
+  // Positions live in the simulation's textures. Sized for the top tier and drawn up to the
+  // current particle count, so changing tier never reallocates them.
+  const particles = useMemo(() => {
+    const initial = getBuffers(formation);
+    return {
+      positions: new Float32Array(MAX_PARTICLE_COUNT * 3), // Unused, but three.js sizes the draw from it
+      references: new Float32Array(MAX_PARTICLE_COUNT * 2),
+      colors: initial.colors.slice(),
+      sizes: initial.sizes.slice(),
+      targetColors: initial.colors.slice(),
+      targetSizes: initial.sizes.slice(),
+      randomPositions: generateNebulaPositions(MAX_PARTICLE_COUNT, expansionScale)
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-    // 2. Rings
-    const ringCount = PARTICLE_COUNT - sphereCount;
-    for (let i = 0; i < ringCount; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      // Biased distribution for bands
-      const t = Math.random();
-      const r = Math.sqrt(t) * (RING_OUTER_RADIUS - RING_INNER_RADIUS) + RING_INNER_RADIUS;
-
-      const x = Math.cos(angle) * r;
-      const z = Math.sin(angle) * r;
-      const y = (Math.random() - 0.5) * 0.4; // Very thin rings
-
-      pos[idx] = x;
-      pos[idx+1] = y;
-      pos[idx+2] = z;
-
-      randPos[idx] = (Math.random() - 0.5) * EXPANSION_SCALE * 4;
-      randPos[idx+1] = (Math.random() - 0.5) * EXPANSION_SCALE * 4;
-      randPos[idx+2] = (Math.random() - 0.5) * EXPANSION_SCALE * 4;
-
-      const c = Math.random() > 0.4 ? colorRing1 : colorRing2;
-      cols[idx] = c.r;
-      cols[idx+1] = c.g;
-      cols[idx+2] = c.b;
-
-      siz[sphereCount + i] = Math.random() * 0.25 + 0.1;
-      idx += 3;
+  // The simulation owns GPU render targets, so it lives in an effect that can clean up after itself.
+  // It's rebuilt when the quality tier changes, starting from the particles of the one it replaces.
+  const [simulation, setSimulation] = useState<ParticleSimulation | null>(null);
+  const simulationRef = useRef<ParticleSimulation | null>(null);
+
+  // Text targets are swapped only once the old lettering has dissolved (see useFrame)
+  const appliedTextRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Some GPUs can't render to float textures, or not at this size. Step down the tiers,
+    // and if none of them runs, draw nothing and say why rather than take the page down.
+    const sizes = [quality.simTextureSize, ...QUALITY_TIERS.map(t => t.simTextureSize).filter(size => size < quality.simTextureSize).reverse()];
+    let sim: ParticleSimulation | null = null;
+    let failure = '';
+    for (const size of sizes) {
+      try {
+        sim = createParticleSimulation(
+          gl,
+          size,
+          getBuffers(targetFormationRef.current),
+          particles.randomPositions,
+          simUniforms,
+          { curlNoise: quality.curlNoise, seed: simulationRef.current }
+        );
+        break;
+      } catch (err) {
+        failure = err instanceof Error ? err.message : String(err);
+        console.warn(`Particle simulation failed at ${size}²:`, err);
+      }
     }
+    if (!sim) {
+      setSimulation(null);
+      onSimulationError?.(failure);
+      return;
+    }
+    onSimulationError?.(null);
 
-    return { positions: pos, randomPositions: randPos, colors: cols, sizes: siz };
-  }, []);
+    if (appliedTextRef.current) {
+      sim.setText(generateTextTargets(appliedTextRef.current, sim.count));
+    }
+    simulationRef.current = sim;
+    setSimulation(sim);
+    return () => {
+      // Deferred so a replacement created in the same commit can still seed from it
+      queueMicrotask(() => {
+        if (simulationRef.current === sim) simulationRef.current = null;
+        sim.dispose();
+      });
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gl, quality.simTextureSize, quality.curlNoise]);
+
+  // Point each drawn particle at its texel before the first frame with a new simulation
+  useLayoutEffect(() => {
+    const geometry = geometryRef.current;
+    if (!geometry || !simulation) return;
+    const { size, count } = simulation;
+    for (let i = 0; i < count; i++) {
+      particles.references[i * 2] = ((i % size) + 0.5) / size;
+      particles.references[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+    }
+    geometry.attributes.aReference.needsUpdate = true;
+    geometry.setDrawRange(0, count);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [simulation]);
+
+  const applyText = (text: string | null) => {
+    if (!simulation) return;
+    appliedTextRef.current = text;
+    if (!text) return;
+    simulation.setText(generateTextTargets(text, simulation.count));
+  };
+
+  const startMorph = (id: FormationId) => {
+    const geometry = geometryRef.current;
+    if (!geometry || !simulation) return;
+    targetFormationRef.current = id;
+
+    const next = getBuffers(id);
+    const { colors, sizes, targetColors, targetSizes } = particles;
+
+    // Bake wherever we are now into "from", so interrupting a morph doesn't jump
+    const raw = Math.min(1, uniforms.uMorph.value);
+    const m = raw * raw * (3 - 2 * raw);
+    for (let i = 0; i < colors.length; i++) {
+      colors[i] += (targetColors[i] - colors[i]) * m;
+    }
+    for (let i = 0; i < sizes.length; i++) {
+      sizes[i] += (targetSizes[i] - sizes[i]) * m;
+    }
+    simulation.morphTo(next, raw);
+
+    targetColors.set(next.colors);
+    targetSizes.set(next.sizes);
+
+    for (const name of ['aColor', 'aSize', 'aTargetColor', 'aTargetSize']) {
+      geometry.attributes[name].needsUpdate = true;
+    }
+    uniforms.uMorph.value = 0;
+  };
+
+  // Start a morph whenever the formation changes
+  useEffect(() => {
+    if (targetFormationRef.current !== formation) startMorph(formation);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [formation, simulation]);
+
+  // Reshape live as the settings change: regenerate, then morph into the new shape
+  useEffect(() => {
+    if (JSON.stringify(shapeRef.current) === shapeKey) return;
+    const timer = setTimeout(() => {
+      shapeRef.current = JSON.parse(shapeKey) as FormationOptions;
+      formationCache.clear();
+      startMorph(targetFormationRef.current);
+    }, RESHAPE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shapeKey, simulation]);
+
+  const nebulaScaleRef = useRef(expansionScale);
+  useEffect(() => {
+    if (!simulation || nebulaScaleRef.current === expansionScale) return;
+    const timer = setTimeout(() => {
+      nebulaScaleRef.current = expansionScale;
+      particles.randomPositions = generateNebulaPositions(MAX_PARTICLE_COUNT, expansionScale);
+      simulation.setNebula(particles.randomPositions);
+    }, RESHAPE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [expansionScale]);
+
+  useFrame((state, delta) => {
+    if (!simulation) return;
+    const dt = Math.min(delta, SIM_MAX_DELTA);
 
-  useFrame((state) => {
     // Update Uniforms
-    uniforms.uTime.value = state.clock.elapsedTime;
+    simUniforms.uTime.value = state.clock.elapsedTime;
     
     // Lerp expansion value for smooth transition
     // 0 = Closed, 1 = Open
-    const target = isExpanded ? 1.0 : 0.0;
-    // Simple lerp: current + (target - current) * speed
-    uniforms.uExpansion.value += (target - uniforms.uExpansion.value) * 0.04;
+    // In continuous mode the hand's openness is the target, so half-open = half-scattered
+    const continuous = expansionMode === 'continuous';
+    const target = continuous ? openness : (isExpanded ? 1.0 : 0.0);
+    const speed = continuous ? OPENNESS_SMOOTHING : settings.expansionLerpSpeed;
+    // In the two-hand modes each group follows its own hand
+    const targets = handGroups ? handGroups.map(group => group.expansion) : [target, target];
+
+    // Reduced motion keeps the particles' behaviour but takes the violence out of it
+    const calm = reducedMotion ? REDUCED_MOTION_SCALE : 1;
+
+    // Opening the hand kicks the particles outward, in proportion to how much it opened
+    const decay = Math.exp(-SIM_BURST_DECAY * dt);
+    (['x', 'y'] as const).forEach((axis, i) => {
+      // Simple lerp: current + (target - current) * speed
+      simUniforms.uExpansion.value[axis] += (targets[i] - simUniforms.uExpansion.value[axis]) * speed;
+      const opened = Math.max(0, targets[i] - expansionTargetsRef.current[i]);
+      expansionTargetsRef.current[i] = targets[i];
+      simUniforms.uBurst.value[axis] = simUniforms.uBurst.value[axis] * decay + opened * settings.burstStrength * calm;
+    });
+    diagnostics?.recordScene(simUniforms.uExpansion.value, simulation.count);
+
+    // Split into one planet per visitor, or merge back
+    const twin = interactionMode === 'twoVisitors' ? 1 : 0;
+    simUniforms.uTwin.value += (twin - simUniforms.uTwin.value) * TWIN_BLEND_SPEED;
+
+    simUniforms.uSpringFormed.value = settings.springFormed;
+    simUniforms.uDamping.value = settings.damping;
+    simUniforms.uCurlStrength.value = settings.curlStrength * calm;
+
+    // Phrase lettering: dissolve the old phrase before building the new one
+    const textPending = phraseText !== appliedTextRef.current;
+    if (textPending && simUniforms.uTextMix.value < 0.02) applyText(phraseText);
+    const textTarget = phraseText && !textPending ? 1.0 : 0.0;
+    simUniforms.uTextMix.value += (textTarget - simUniforms.uTextMix.value) * TEXT_BLEND_SPEED;
+
+    // Advance any formation morph in progress
+    if (simUniforms.uMorph.value < 1) {
+      simUniforms.uMorph.value = Math.min(1, simUniforms.uMorph.value + FORMATION_MORPH_SPEED);
+    }
 
-    // Rotate the entire group for the "Saturn Tilt" and orbital spin
+    // Project each hand onto the plane through the planet's centre, as seen from the camera.
+    // The preview is mirrored, so flip x to match what the user sees.
+    const positions = handGroups ? handGroups.map(group => group.position) : [handPosition, handPosition];
+    positions.forEach((position, i) => {
+      if (position) {
+        const depth = handTarget.set(0, 0, 0).project(state.camera).z;
+        handTarget.set((1 - position.x) * 2 - 1, 1 - position.y * 2, depth).unproject(state.camera);
+        handWorlds[i].lerp(handTarget, HAND_SMOOTHING);
+      }
+      const strength = position ? 1.0 : 0.0;
+      const axis = i === 0 ? 'x' : 'y';
+      simUniforms.uHandStrength.value[axis] += (strength - simUniforms.uHandStrength.value[axis]) * HAND_SMOOTHING;
+    });
+
+    // "Saturn Tilt", eased so live edits swing rather than snap. Spin and orbits are simulated per particle.
     if (pointsRef.current) {
-        // Constant tilt
-        pointsRef.current.rotation.z = Math.PI / 6; 
-        pointsRef.current.rotation.x = Math.PI / 12;
-        
-        // Spin on Y axis (which is local Y, so it spins around the tilted pole)
-        // We only spin when compact to simulate planet rotation. 
-        // When expanded, the shader handles the "float".
-        if (!isExpanded) {
-            pointsRef.current.rotation.y += 0.001; 
-        }
+        const rotation = pointsRef.current.rotation;
+        rotation.z += (tiltZ - rotation.z) * 0.1;
+        rotation.x += (tiltX - rotation.x) * 0.1;
+
+        // Simulation works in local space, so undo the tilt
+        pointsRef.current.updateMatrixWorld();
+        localInverse.copy(pointsRef.current.matrixWorld).invert();
+        simUniforms.uHand.value.forEach((hand, i) => hand.copy(handWorlds[i]).applyMatrix4(localInverse));
+
+        // Text plane sits at the origin facing the camera, so it reads straight on
+        textPlane.makeRotationFromQuaternion(state.camera.quaternion);
+        simUniforms.uTextToLocal.value.copy(localInverse).multiply(textPlane);
+
+        // Twins sit left and right on screen, whichever way the camera has orbited
+        simUniforms.uTwinAxis.value.set(1, 0, 0).applyQuaternion(state.camera.quaternion).transformDirection(localInverse);
     }
+
+    // Ease toward the new tier's particle density and effects
+    uniforms.uSizeScale.value += (Math.pow(density, 0.25) - uniforms.uSizeScale.value) * 0.05;
+    uniforms.uAlphaScale.value += (Math.sqrt(density) - uniforms.uAlphaScale.value) * 0.05;
+    uniforms.uHeatGlow.value += ((quality.heatGlow ? 1 : 0) - uniforms.uHeatGlow.value) * 0.05;
+
+    simulation.step(dt);
+    uniforms.tPosition.value = simulation.positionTexture();
+    uniforms.tVelocity.value = simulation.velocityTexture();
   });
 
+  if (!simulation) return null;
+
+  // Labels only make sense on the whole, formed planet
+  const formed = expansionMode === 'continuous' ? openness < PHRASE_REVEAL_THRESHOLD : !isExpanded;
+  const labelsVisible = showLabels && formed && interactionMode === 'single';
+
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
+    <points 
+      ref={pointsRef} 
+      frustumCulled={false} 
+      rotation={initialRotation} 
+      onBeforeRender={(_renderer, scene) => { uniforms.uCaptureScale.value = scene.userData.captureScale ?? 1; }}
+    >
+      <bufferGeometry ref={geometryRef}>
         <bufferAttribute
           attach="attributes-position"
-          count={PARTICLE_COUNT}
-          array={positions}
+          count={MAX_PARTICLE_COUNT}
+          array={particles.positions}
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-aRandomPosition"
-          count={PARTICLE_COUNT}
-          array={randomPositions}
-          itemSize={3}
+          attach="attributes-aReference"
+          count={MAX_PARTICLE_COUNT}
+          array={particles.references}
+          itemSize={2}
         />
         <bufferAttribute
           attach="attributes-aColor"
-          count={PARTICLE_COUNT}
-          array={colors}
+          count={MAX_PARTICLE_COUNT}
+          array={particles.colors}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-aTargetColor"
+          count={MAX_PARTICLE_COUNT}
+          array={particles.targetColors}
           itemSize={3}
         />
         <bufferAttribute
           attach="attributes-aSize"
-          count={PARTICLE_COUNT}
-          array={sizes}
+          count={MAX_PARTICLE_COUNT}
+          array={particles.sizes}
+          itemSize={1}
+        />
+        <bufferAttribute
+          attach="attributes-aTargetSize"
+          count={MAX_PARTICLE_COUNT}
+          array={particles.targetSizes}
           itemSize={1}
         />
       </bufferGeometry>
@@ -236,8 +496,9 @@ const SaturnScene: React.FC<SaturnSceneProps> = ({ isExpanded }) => {
         depthWrite={false}
         blending={THREE.AdditiveBlending}
       />
+      {labels && <FormationLabels labels={labels} visible={labelsVisible} />}
     </points>
   );
 };
 
-export default SaturnScene;
\ No newline at end of file
+export default SaturnScene;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { RefreshCw, ShieldCheck } from 'lucide-react';
+import { LinkStatus } from '../types';
+import { LINK_STATUS_LABELS } from '../constants';
+import { LinkMonitor } from '../services/linkHealthService';
+
+interface VisionLinkStatusProps {
+  monitor: LinkMonitor;
+  cameraAllowed: boolean;
+  cameraActive: boolean;
+  onPrivacy: () => void; // Reopen the camera consent screen
+}
+
+const DOT_CLASSES: Record<'ok' | 'warn' | 'down', string> = {
+  ok: 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)]',
+  warn: 'bg-amber-400 shadow-[0_0_8px_rgba(251,191,36,0.8)]',
+  down: 'bg-red-500'
+};
+
+const STATUS_LEVELS: Record<LinkStatus, keyof typeof DOT_CLASSES> = {
+  local: 'ok',
+  connected: 'ok',
+  connecting: 'warn',
+  retrying: 'warn',
+  quota: 'warn',
+  open: 'down',
+  offline: 'down',
+  auth: 'down',
+  budget: 'down'
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString();
+
+// Header readout of the real state of the vision link, with usage details on click
+const VisionLinkStatus: React.FC<VisionLinkStatusProps> = ({ monitor, cameraAllowed, cameraActive, onPrivacy }) => {
+  const health = useSyncExternalStore(monitor.subscribe, monitor.health);
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(() => performance.now());
+
+  // Tick the retry countdown while it's visible
+  useEffect(() => {
+    if (!open || health.retryAt === null) return;
+    const timer = setInterval(() => setNow(performance.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open, health.retryAt]);
+
+  const cameraOff = !cameraAllowed || !cameraActive;
+  const level = cameraOff ? 'down' : STATUS_LEVELS[health.status];
+  const label = !cameraAllowed ? 'Camera Off' : LINK_STATUS_LABELS[health.status];
+  const cloud = health.status !== 'local';
+  const tokens = health.promptTokens + health.outputTokens;
+  const retryIn = health.retryAt !== null ? Math.max(0, Math.ceil((health.retryAt - now) / 1000)) : null;
+
+  const rows: [string, string][] = cloud ? [
+    ['Requests', health.requests.toLocaleString()],
+    ['Tokens', `~${formatTokens(tokens)}${health.budgetTokens ? ` / ${formatTokens(health.budgetTokens)}` : ''}`],
+    ['Est. cost', `$${health.estimatedCost.toFixed(4)}`],
+    ...(health.lastError ? [['Last error', health.lastError.kind] as [string, string]] : []),
+    ...(retryIn !== null && health.failures > 0 ? [['Retry in', `${retryIn}s`] as [string, string]] : [])
+  ] : [];
+
+  return (
+    <div className="relative flex items-center gap-2 mt-2 ml-1 text-white/40 text-xs font-mono uppercase tracking-widest">
+      <span className={`w-1.5 h-1.5 rounded-full ${DOT_CLASSES[level]}`}></span>
+      <button
+        onClick={() => setOpen(!open)}
+        className="uppercase tracking-widest hover:text-white/70 transition-colors"
+        aria-expanded={open}
+        aria-label={`Vision link: ${label}. Show details`}
+      >
+        {label}
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-2 w-64 z-30 p-4 rounded-xl bg-black/60 backdrop-blur-xl border border-white/10 shadow-2xl normal-case tracking-normal">
+          {cloud ? (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-[11px]">
+              {rows.map(([name, value]) => (
+                <React.Fragment key={name}>
+                  <dt className="uppercase tracking-widest text-white/40">{name}</dt>
+                  <dd className="text-right text-white/70">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          ) : (
+            <p className="text-[11px] text-white/60">Gestures are recognised on this device. Nothing is sent.</p>
+          )}
+          {health.lastError && health.failures > 0 && (
+            <p className="mt-2 text-[10px] text-white/40 break-words line-clamp-3" title={health.lastError.message}>{health.lastError.message}</p>
+          )}
+
+          <div className="mt-3 flex justify-between">
+            <button
+              onClick={onPrivacy}
+              className="flex items-center gap-1.5 text-white/40 hover:text-white/80 text-[10px] uppercase tracking-widest transition-colors"
+            >
+              <ShieldCheck size={12} />
+              Privacy
+            </button>
+            {cloud && health.failures > 0 && (
+              <button
+                onClick={() => monitor.retry()}
+                className="flex items-center gap-1.5 text-white/40 hover:text-white/80 text-[10px] uppercase tracking-widest transition-colors"
+              >
+                <RefreshCw size={12} />
+                Retry now
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VisionLinkStatus;
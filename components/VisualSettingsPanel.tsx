@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { X, RotateCcw, Link, Save, Trash2 } from 'lucide-react';
+import { NumericSettingDefinition, QualitySetting, SettingGroup, SettingsPreset, VisualSettings } from '../types';
+import { DEFAULT_VISUAL_SETTINGS, QUALITY_TIERS, SETTINGS_SCHEMA } from '../constants';
+import { applyPreset, matchPreset } from '../services/settingsService';
+
+interface VisualSettingsPanelProps {
+  settings: VisualSettings;
+  onChange: (settings: VisualSettings) => void;
+  presets: SettingsPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onClose: () => void;
+}
+
+const GROUP_LABELS: Record<SettingGroup, string> = {
+  shape: 'Shape',
+  motion: 'Motion',
+  system: 'System'
+};
+
+const selectClassName = "w-40 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/90 focus:outline-none focus:border-white/30";
+const linkButtonClassName = "flex items-center gap-2 text-white/40 hover:text-white/80 text-xs uppercase tracking-widest transition-colors";
+
+// Show as many decimals as the step has
+const formatValue = (def: NumericSettingDefinition, value: number) => {
+  const decimals = (String(def.step).split('.')[1] ?? '').length;
+  return `${value.toFixed(decimals)}${def.unit ? ` ${def.unit}` : ''}`;
+};
+
+const VisualSettingsPanel: React.FC<VisualSettingsPanelProps> = ({
+  settings,
+  onChange,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+  onClose
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const activePreset = matchPreset(settings, presets);
+  const groups = Object.keys(GROUP_LABELS) as SettingGroup[];
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn("Could not copy link:", error);
+    }
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onSavePreset(name);
+    setPresetName('');
+  };
+
+  return (
+    <div className="absolute top-32 right-8 w-80 z-20 pointer-events-auto animate-slide-in-left">
+      <div className="relative p-6 rounded-2xl bg-black/40 backdrop-blur-xl border border-white/10 shadow-2xl overflow-y-auto max-h-[calc(100vh-10rem)]">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-purple-500/50 via-blue-500/50 to-emerald-500/50"></div>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-white/30 hover:text-white/80 transition-colors"
+          aria-label="Close Look Settings"
+        >
+          <X size={14} />
+        </button>
+
+        <h3 className="text-white/90 font-light tracking-wider mb-4 text-lg">LOOK</h3>
+
+        <div className="space-y-2">
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-white/70 text-xs uppercase tracking-widest">Preset</span>
+            <select
+              value={activePreset?.id ?? ''}
+              onChange={(e) => {
+                const preset = presets.find(p => p.id === e.target.value);
+                if (preset) onChange(applyPreset(preset));
+              }}
+              className={selectClassName}
+            >
+              {!activePreset && <option value="" className="bg-neutral-900">Custom</option>}
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id} className="bg-neutral-900">{preset.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') savePreset(); }}
+              placeholder="Save current as…"
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/90 placeholder:text-white/30 focus:outline-none focus:border-white/30"
+            />
+            <button onClick={savePreset} className="text-white/40 hover:text-white/80 transition-colors" aria-label="Save Preset">
+              <Save size={14} />
+            </button>
+            {activePreset && !activePreset.builtin && (
+              <button onClick={() => onDeletePreset(activePreset.id)} className="text-white/40 hover:text-red-300 transition-colors" aria-label="Delete Preset">
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {groups.map(group => (
+          <div key={group} className="mt-5 pt-4 border-t border-white/10 space-y-3">
+            <h4 className="text-white/40 text-[10px] uppercase tracking-widest">{GROUP_LABELS[group]}</h4>
+            {SETTINGS_SCHEMA.filter(def => def.group === group).map(def => (
+              <label key={def.key} className="block">
+                <span className="flex justify-between text-xs">
+                  <span className="text-white/70 uppercase tracking-widest">{def.label}</span>
+                  <span className="text-white/50 font-mono">{formatValue(def, settings[def.key])}</span>
+                </span>
+                <input
+                  type="range"
+                  min={def.min}
+                  max={def.max}
+                  step={def.step}
+                  value={settings[def.key]}
+                  onChange={(e) => onChange({ ...settings, [def.key]: Number(e.target.value) })}
+                  className="w-full accent-blue-400"
+                />
+              </label>
+            ))}
+            {group === 'system' && (
+              <label className="flex items-center justify-between gap-4">
+                <span className="text-white/70 text-xs uppercase tracking-widest">Quality</span>
+                <select
+                  value={settings.quality}
+                  onChange={(e) => onChange({ ...settings, quality: e.target.value as QualitySetting })}
+                  className={selectClassName}
+                >
+                  <option value="auto" className="bg-neutral-900">Auto</option>
+                  {QUALITY_TIERS.map(tier => (
+                    <option key={tier.id} value={tier.id} className="bg-neutral-900">{tier.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        ))}
+
+        <div className="mt-5 flex items-center justify-between">
+          <button onClick={copyLink} className={linkButtonClassName}>
+            <Link size={12} />
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+          <button onClick={() => onChange({ ...DEFAULT_VISUAL_SETTINGS })} className={linkButtonClassName}>
+            <RotateCcw size={12} />
+            Reset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VisualSettingsPanel;
@@ -1,3 +1,5 @@
+import { RecognizerBackend, GestureState, GestureAction, GestureBindings, BindableGesture, FrameGesture, FormationId, QualityTier, QualityTierId, VisualSettings, NumericSettingDefinition, SettingsPreset, KeyboardShortcut, RedactionStyle, LinkStatus, CameraResolution, CameraPreferences, InteractionMode, CalibrationGesture, HandBox, RingRegion, MoonData, PlanetId, PlanetInfo } from './types';
+
 export const PHRASES = [
   "Embrace the chaos, find your star.",
   "You are the universe expressing itself.",
@@ -101,10 +103,420 @@ export const PHRASES = [
   "The universe has your back."
 ];
 
+// Phrase packs
+export const BUILTIN_PACK_ID = 'builtin';
+export const PHRASE_PACKS_MANIFEST_URL = '/phrase-packs/index.json';
+export const PHRASE_PREFS_STORAGE_KEY = 'saturn-nebula.phrase-prefs';
+export const PHRASE_CYCLE_STORAGE_PREFIX = 'saturn-nebula.phrase-cycle.';
+export const FALLBACK_LOCALE = 'en';
+
+// Generated phrases
+export const PHRASE_MODEL = 'gemini-2.5-flash';
+export const GENERATED_PHRASES_STORAGE_KEY = 'saturn-nebula.generated-phrases';
+export const GENERATED_BATCH_SIZE = 12; // Phrases asked for per request
+export const GENERATED_REFILL_THRESHOLD = 4; // Refill when fewer unseen phrases remain
+export const GENERATED_HISTORY_SIZE = 200; // Seen phrases remembered to avoid repeats
+export const GENERATED_BACKOFF_MS = 60000; // Pause after a quota error
+export const GENERATED_MIN_LENGTH = 12;
+export const GENERATED_MAX_LENGTH = 60;
+export const GENERATED_MAX_WORDS = 10;
+export const GENERATED_MIN_LENGTH_UNSPACED = 5; // Chinese, Japanese, Thai: more per character, no words to count
+export const GENERATED_MAX_LENGTH_UNSPACED = 32;
+export const PHRASE_MOODS = ['serene', 'hopeful', 'playful', 'bold', 'dreamy', 'grateful'];
+// Keeps generated lines in the same gentle register as the curated ones
+export const PHRASE_BLOCKLIST = [
+  'death', 'die', 'dying', 'dead', 'kill', 'hate', 'fear', 'doom', 'alone', 'lonely',
+  'pain', 'suffer', 'war', 'blood', 'god', 'sex', 'drug', 'suicide', 'hell', 'damn'
+];
+
 // 3D Visual Constants
-export const PARTICLE_COUNT = 8000;
+export const PARTICLE_REFERENCE_COUNT = 8000; // Count the formation sizes and colours were tuned for
 export const SATURN_RADIUS = 15;
 export const RING_INNER_RADIUS = 20;
 export const RING_OUTER_RADIUS = 40;
+export const PLANET_PARTICLE_SHARE = 0.35; // The rest of Saturn's particles form the rings
+export const SATURN_TILT_X_DEG = 15;
+export const SATURN_TILT_Z_DEG = 30;
 export const EXPANSION_SCALE = 50; // How far they spread
-export const CAMERA_CHECK_INTERVAL_MS = 600; // Check gesture every 600ms
\ No newline at end of file
+export const JUPITER_RADIUS = 22;
+export const GALAXY_RADIUS = 45;
+export const BLACK_HOLE_HORIZON_RADIUS = 8;
+export const ACCRETION_DISK_OUTER_RADIUS = 40;
+export const COMET_TAIL_LENGTH = 70;
+export const SATURN_SPIN_SPEED = 0.06; // rad/s
+export const RING_ORBIT_SPEED = 0.18; // rad/s at the inner ring edge, slower outward (Kepler)
+export const DEFAULT_FORMATION: FormationId = 'saturn';
+
+// Saturn scale model. Sources: NASA Saturn, Saturnian Rings and Saturnian Satellite fact sheets.
+export const SATURN_EQUATORIAL_RADIUS_KM = 60268; // At the 1 bar level
+export const SATURN_POLAR_RADIUS_KM = 54364;
+export const SATURN_AXIAL_TILT_DEG = 26.73; // Obliquity to its orbit
+export const SATURN_GM = 37931187; // km³/s², sets every orbital period through Kepler's third law
+export const SATURN_ROTATION_PERIOD_S = 38018; // 10h 33m 38s
+export const SCALE_MODEL_RADIUS = 10; // Scene units per Saturn equatorial radius
+export const SCALE_MODEL_TIME_SCALE = 360; // One second on screen is six minutes at Saturn
+export const SCALE_MODEL_MOON_SIZE = 10; // Moons are drawn this many times their true size...
+export const SCALE_MODEL_COMPRESS_FROM = 2.4; // ...and orbits beyond this many Saturn radii are pulled in
+export const SCALE_MODEL_COMPRESS_POWER = 0.4; // r = from × (a / from)^power
+export const SCALE_MODEL_PLANET_SHARE = 0.35;
+export const SCALE_MODEL_MOON_SHARE = 0.05;
+export const SATURN_RINGS: RingRegion[] = [
+  { name: 'C Ring', innerKm: 74658, outerKm: 92000, opticalDepth: 0.1, color: '#8E867A' },
+  { name: 'B Ring', innerKm: 92000, outerKm: 99000, opticalDepth: 1.0, color: '#D9C7A6' },
+  { name: 'B Ring', innerKm: 99000, outerKm: 104500, opticalDepth: 2.0, color: '#E3D2B2' },
+  { name: 'B Ring', innerKm: 104500, outerKm: 110000, opticalDepth: 3.0, color: '#EADBBD' },
+  { name: 'B Ring', innerKm: 110000, outerKm: 117580, opticalDepth: 2.0, color: '#E3D2B2' },
+  { name: 'Cassini Division', innerKm: 117580, outerKm: 122170, opticalDepth: 0.1, color: '#7D776E' },
+  { name: 'A Ring', innerKm: 122170, outerKm: 133427, opticalDepth: 0.6, color: '#C9B997' },
+  // The Encke Gap, 325 km wide, is kept open by the moon Pan
+  { name: 'A Ring', innerKm: 133752, outerKm: 136775, opticalDepth: 0.5, color: '#C2B392' }
+];
+export const ENCKE_GAP_KM = 133589;
+export const SATURN_MOONS: MoonData[] = [
+  { name: 'Mimas', semiMajorAxisKm: 185539, radiusKm: 198.2, color: '#B8B4AE' },
+  { name: 'Enceladus', semiMajorAxisKm: 237948, radiusKm: 252.1, color: '#F4F7FA' },
+  { name: 'Tethys', semiMajorAxisKm: 294619, radiusKm: 531.1, color: '#DAD7D0' },
+  { name: 'Dione', semiMajorAxisKm: 377396, radiusKm: 561.4, color: '#C9C6C0' },
+  { name: 'Rhea', semiMajorAxisKm: 527108, radiusKm: 763.8, color: '#C4C0B8' },
+  { name: 'Titan', semiMajorAxisKm: 1221870, radiusKm: 2574.7, color: '#D9A441' }
+];
+
+// Solar system explorer. Figures from NASA's planetary fact sheet; moon counts as confirmed in early 2025.
+export const SOLAR_SYSTEM_PACK_ID = 'solar-system-en'; // Phrase pack with one category per planet
+export const EXPLORER_START_PLANET: PlanetId = 'earth';
+export const FLY_THROUGH_DURATION_S = 2.2;
+export const FLY_THROUGH_SWEEP = Math.PI / 2; // Camera swing around the planet per step
+export const FLY_THROUGH_PULLBACK = 0.6; // Extra camera distance halfway through, as a share
+// Planets fill the view rather than keep their true sizes; the fact card has those
+export const MERCURY_RADIUS = 12;
+export const VENUS_RADIUS = 17;
+export const EARTH_RADIUS = 17;
+export const MARS_RADIUS = 14;
+export const URANUS_RADIUS = 16;
+export const NEPTUNE_RADIUS = 16;
+export const URANUS_RADIUS_KM = 25559;
+export const URANUS_RINGS_KM = [41837, 42234, 42571, 44718, 45661, 47176, 47627, 48300, 51149]; // 6, 5, 4, α, β, η, γ, δ, ε
+export const NEPTUNE_RADIUS_KM = 24764;
+export const NEPTUNE_RINGS_KM = [53200, 62932]; // Le Verrier, Adams
+export const SOLAR_SYSTEM_PLANETS: PlanetInfo[] = [
+  {
+    id: 'mercury', name: 'Mercury', formation: 'mercury',
+    summary: 'The smallest planet and the closest to the Sun. With almost no air to hold the heat, it bakes by day and freezes by night.',
+    diameterKm: 4879, dayHours: 1407.6, yearDays: 88, distanceAu: 0.39, moons: 0, axialTiltDeg: 0.03
+  },
+  {
+    id: 'venus', name: 'Venus', formation: 'venus',
+    summary: 'Thick clouds trap so much heat that Venus is the hottest planet. It turns slowly, and backwards.',
+    diameterKm: 12104, dayHours: 5832.5, yearDays: 224.7, distanceAu: 0.72, moons: 0, axialTiltDeg: 177.4
+  },
+  {
+    id: 'earth', name: 'Earth', formation: 'earth',
+    summary: 'Our home, and the only planet known to have life. Oceans of liquid water cover most of its surface.',
+    diameterKm: 12756, dayHours: 23.9, yearDays: 365.2, distanceAu: 1, moons: 1, axialTiltDeg: 23.44
+  },
+  {
+    id: 'mars', name: 'Mars', formation: 'mars',
+    summary: 'A cold desert coloured by rusty dust, with ice caps at both poles and the tallest volcano in the solar system.',
+    diameterKm: 6792, dayHours: 24.6, yearDays: 687, distanceAu: 1.52, moons: 2, axialTiltDeg: 25.19
+  },
+  {
+    id: 'jupiter', name: 'Jupiter', formation: 'jupiter',
+    summary: 'The largest planet, a ball of gas striped with clouds. The Great Red Spot is a storm wider than Earth.',
+    diameterKm: 142984, dayHours: 9.9, yearDays: 4331, distanceAu: 5.2, moons: 95, axialTiltDeg: 3.13
+  },
+  {
+    id: 'saturn', name: 'Saturn', formation: 'saturn',
+    summary: 'A gas giant with the brightest rings, made of countless pieces of ice. It is light enough to float in water.',
+    diameterKm: 120536, dayHours: 10.7, yearDays: 10747, distanceAu: 9.54, moons: 274, axialTiltDeg: 26.73
+  },
+  {
+    id: 'uranus', name: 'Uranus', formation: 'uranus',
+    summary: 'An ice giant tipped on its side, so its rings circle it from top to bottom. Each pole gets 42 years of daylight, then 42 of night.',
+    diameterKm: 51118, dayHours: 17.2, yearDays: 30589, distanceAu: 19.19, moons: 28, axialTiltDeg: 97.77
+  },
+  {
+    id: 'neptune', name: 'Neptune', formation: 'neptune',
+    summary: 'The farthest planet, a deep blue ice giant. Its winds are the fastest in the solar system.',
+    diameterKm: 49528, dayHours: 16.1, yearDays: 59800, distanceAu: 30.07, moons: 16, axialTiltDeg: 28.32
+  }
+];
+export const FORMATION_MORPH_SPEED = 0.015; // Progress per frame, ~1s at 60fps
+
+// Particle dynamics (GPU simulation)
+export const SIM_SPRING_FORMED = 6.0; // Pull back to the formation, 1/s²
+export const SIM_SPRING_NEBULA = 1.2; // Looser pull while scattered
+export const SIM_DAMPING = 2.4; // Velocity damping, 1/s
+export const SIM_CURL_SCALE = 0.035; // Spatial frequency of the turbulence
+export const SIM_CURL_SPEED = 0.12; // How fast the turbulence field evolves
+export const SIM_CURL_STRENGTH = 28; // Turbulence acceleration at full dispersal
+export const SIM_BURST_STRENGTH = 260; // Outward kick when the hand opens
+export const SIM_BURST_DECAY = 4.0; // 1/s
+export const SIM_MAX_DELTA = 1 / 30; // Clamp frame time so a stall doesn't fling everything
+
+// Quality tiers, lowest first. Particle state lives in simTextureSize² float textures.
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'low', name: 'Low', simTextureSize: 128, starCount: 2000, maxDpr: 1, curlNoise: false, heatGlow: false },
+  { id: 'medium', name: 'Medium', simTextureSize: 224, starCount: 4000, maxDpr: 1.5, curlNoise: true, heatGlow: false },
+  { id: 'high', name: 'High', simTextureSize: 320, starCount: 7000, maxDpr: 2, curlNoise: true, heatGlow: true },
+  { id: 'ultra', name: 'Ultra', simTextureSize: 384, starCount: 12000, maxDpr: 2, curlNoise: true, heatGlow: true }
+];
+export const DEFAULT_QUALITY_TIER: QualityTierId = 'high';
+export const MAX_PARTICLE_COUNT = Math.max(...QUALITY_TIERS.map(t => t.simTextureSize)) ** 2; // 147,456
+export const QUALITY_QUERY_PARAM = 'quality'; // e.g. ?quality=low pins a tier
+export const DEBUG_QUERY_PARAM = 'debug'; // ?debug opens the diagnostics HUD
+
+// Performance governor
+export const PERF_WINDOW_FRAMES = 90; // Rolling window for the average frame time
+export const PERF_DOWNGRADE_FRAME_MS = 24; // Slower than ~42fps: step down
+export const PERF_UPGRADE_FRAME_MS = 17.5; // ~57fps or better...
+export const PERF_UPGRADE_HOLD_MS = 5000; // ...held this long: try a step up
+export const PERF_SETTLE_MS = 2000; // Ignore frames after a change while shaders compile and buffers fill
+export const PERF_RETRY_MS = 60000; // A tier we had to step down from isn't retried for this long
+export const PERF_MAX_FRAME_MS = 250; // Longer frames are tab switches or stalls, not load
+export const PERF_STATS_INTERVAL_MS = 500; // Diagnostics HUD refresh
+export const DIAGNOSTICS_LATENCY_SAMPLES = 200; // Round trips kept for the percentiles
+export const DIAGNOSTICS_TIMELINE_LENGTH = 60; // Classifications on the timeline strip
+
+// Particle text
+export const TEXT_PARTICLE_SHARE = 0.7; // Share of particles that spell the phrase, the rest keep drifting
+export const TEXT_WORLD_WIDTH = 70; // Width of the text block in scene units, fits the default camera
+export const TEXT_MAX_LINES = 4;
+export const TEXT_MAX_FONT_PX = 96; // Raster font size range, shrunk to fit long phrases
+export const TEXT_MIN_FONT_PX = 40;
+export const TEXT_DEPTH = 1.5; // Z jitter so the lettering has some volume
+export const TEXT_BLEND_SPEED = 0.05;
+export const CAMERA_CHECK_INTERVAL_MS = 600; // Check gesture every 600ms
+
+// Camera device
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+  { id: 'low', label: '320 × 240', width: 320, height: 240 }, // Low res is fine for gestures, and faster
+  { id: 'medium', label: '640 × 480', width: 640, height: 480 },
+  { id: 'high', label: '1280 × 720', width: 1280, height: 720 }
+];
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = { deviceId: null, resolution: 'low', mirror: true };
+export const CAMERA_STORAGE_KEY = 'saturn-nebula.camera'; // Local storage, so a kiosk keeps its USB camera across restarts
+
+// Continuous control
+export const EXPANSION_LERP_SPEED = 0.04; // Easing used in toggle mode
+export const OPENNESS_SMOOTHING = 0.08; // Easing toward the tracked openness in continuous mode
+export const PHRASE_REVEAL_THRESHOLD = 0.5; // Openness at which the phrase starts to appear
+
+// Hand steering
+export const HAND_FORCE = -18; // Pull on nebula particles near the hand. Negative repels, positive attracts.
+export const HAND_RADIUS = 25; // Falloff radius of the hand's influence
+export const HAND_SMOOTHING = 0.1; // Easing of the tracked hand in the scene
+export const HAND_AZIMUTH_RANGE = Math.PI / 2; // Camera swing across the full frame width
+export const HAND_POLAR_RANGE = Math.PI / 4; // Camera tilt across the full frame height
+export const HAND_CAMERA_SMOOTHING = 0.05;
+
+// Several hands
+export const MAX_HANDS = 4; // Hands a recognizer reports per frame
+export const HAND_TRACK_MAX_JUMP = 0.3; // Furthest a hand moves between frames and is still the same hand, as a share of the frame
+export const HAND_TRACK_TTL_MS = 1500; // A hand unseen for this long has left; its group reforms
+export const INTERACTION_MODE_LABELS: Record<InteractionMode, string> = {
+  single: 'One Hand',
+  twoHands: 'Two Hands',
+  twoVisitors: 'Two Visitors'
+};
+export const INTERACTION_QUERY_PARAM = 'interaction'; // e.g. ?interaction=twoVisitors for an exhibition table
+export const INTERACTION_STORAGE_KEY = 'saturn-nebula.interaction';
+export const TWIN_OFFSET = 22; // Distance of each planet from the centre in two-visitor mode
+export const TWIN_SCALE = 0.55; // Each planet's size in two-visitor mode
+export const TWIN_BLEND_SPEED = 0.03; // Easing of the split into two planets and back
+
+// Gesture stabilization
+export const GESTURE_MIN_CONFIDENCE = 0.5; // Ignore classifications below this
+export const GESTURE_VOTE_WINDOW = 5; // Frames in the majority vote
+export const GESTURE_ENTER_OPEN_RATIO = 0.6; // Share of OPEN votes needed to disperse
+export const GESTURE_EXIT_OPEN_RATIO = 0.3; // Share of OPEN votes at which we reform
+export const GESTURE_MAX_RESPONSE_AGE_MS = 3000; // Drop responses slower than this
+export const FRAME_GESTURES: FrameGesture[] = ['OPEN', 'CLOSED', 'NONE', 'POINT', 'PINCH', 'THUMBS_UP', 'PEACE'];
+export const GESTURE_POSE_FRAMES = 2; // Consecutive frames a pose must be seen to fire
+export const GESTURE_POSE_COOLDOWN_MS = 1500; // Minimum gap between two pose/swipe events
+
+// Swipes: horizontal hand travel within a few frames
+export const SWIPE_MIN_DISTANCE = 0.3; // Share of the frame width
+export const SWIPE_MAX_FRAMES = 3;
+
+// Motion-gated sampling: only classify when the picture changes
+export const MOTION_PROBE_INTERVAL_MS = 100; // How often the cheap change detector looks at the camera
+export const MOTION_GRID_WIDTH = 32; // Downscaled greyscale buffer the detector compares
+export const MOTION_GRID_HEIGHT = 24;
+export const MOTION_PIXEL_THRESHOLD = 24; // Grey levels (of 255) a cell must shift to count as changed, above sensor noise
+export const MOTION_CHANGED_SHARE = 0.015; // Share of changed cells that counts as motion
+export const MOTION_SETTLE_SAMPLES = GESTURE_VOTE_WINDOW; // Keep sampling fast after motion until the vote has settled
+export const MOTION_UNCERTAIN_WINDOW_MS = 4000; // Low-confidence results keep sampling fast for this long after motion
+export const MOTION_IDLE_INTERVAL_MS = 6000; // Refresh the result this often while the scene is static
+
+// Session recording
+export const SESSION_MAX_FRAMES = 1000; // ~10 minutes at the default interval
+export const REPLAY_QUERY_PARAM = 'replay'; // e.g. ?replay=/sessions/demo.json
+
+// Recognizer selection
+export const DEFAULT_RECOGNIZER: RecognizerBackend = 'gemini'; // Falls back to 'local' when offline or no API key
+export const RECOGNIZER_QUERY_PARAM = 'recognizer'; // e.g. ?recognizer=local
+export const CLOUD_RECOGNIZERS: RecognizerBackend[] = ['gemini']; // Backends that upload frames
+
+// Vision link health
+export const VISION_TIMEOUT_MS = 8000; // A frame that takes longer is stale anyway
+export const LINK_BACKOFF_BASE_MS = 1000; // First retry delay, doubled per consecutive failure
+export const LINK_BACKOFF_MAX_MS = 30000;
+export const LINK_BREAKER_THRESHOLD = 5; // Consecutive failures that trip the circuit breaker
+export const LINK_BREAKER_COOLDOWN_MS = 60000; // Then one probe request after this long
+export const LINK_QUOTA_BACKOFF_MS = 60000; // For a 429 that doesn't say how long to wait
+export const VISION_TOKEN_ESTIMATE = { prompt: 380, output: 110 }; // Per frame when no usage comes back: ~258 image tokens plus the prompt; one hand listed twice
+export const VISION_PRICE_PER_MILLION = { prompt: 0.3, output: 2.5 }; // gemini-2.5-flash list prices in USD; update if they change
+export const BUDGET_QUERY_PARAM = 'budget'; // ?budget=50000 caps this session's tokens
+export const VISION_USAGE_STORAGE_KEY = 'saturn-nebula.vision-usage'; // Session storage, so a reload doesn't reset the budget
+
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  local: 'On-Device Vision Active',
+  connecting: 'Connecting Vision Link',
+  connected: 'Gemini Vision Link Active',
+  retrying: 'Vision Link Unstable',
+  open: 'Vision Link Down',
+  offline: 'Offline',
+  auth: 'API Key Rejected',
+  quota: 'Vision Quota Reached',
+  budget: 'Session Budget Reached'
+};
+
+// Privacy
+export const PRIVACY_QUERY_PARAM = 'privacy'; // ?privacy=local forces on-device recognition
+export const CONSENT_STORAGE_KEY = 'saturn-nebula.camera-consent'; // Session storage: the next visitor is asked again
+export const REDACTION_STYLE: RedactionStyle = 'blur';
+export const REDACT_BLUR_FACTOR = 12; // Hidden areas are downsampled this much, enough to blur a face beyond recognition
+export const REDACT_PADDING = 0.25; // Extra margin around the hand box, as a share of its size
+export const REDACT_BOX_TTL_MS = 2000; // Forget the hand box if it isn't confirmed for this long
+export const REDACT_MIN_CONFIDENCE = 0.4; // Weaker detections don't move the sharp region
+
+// Calibration
+export const CALIBRATION_STORAGE_KEY = 'saturn-nebula.calibration';
+export const CALIBRATION_COUNTDOWN_MS = 3000; // Time to get the pose ready before capturing
+export const CALIBRATION_SAMPLES_PER_GESTURE = 5;
+export const CALIBRATION_CAPTURE_INTERVAL_MS = 300;
+export const CALIBRATION_GUIDE_BOX: HandBox = { x: 0.3, y: 0.15, width: 0.4, height: 0.7 }; // Raw frame coords; the hand is held here
+export const CALIBRATION_EXAMPLE_SIZE = 192; // px, longest side of the stored crops
+export const CALIBRATION_FEW_SHOT_PER_GESTURE = 1; // Examples kept, and sent with every cloud request
+export const CALIBRATION_EXAMPLE_TOKENS = 258; // Gemini's charge for a small image
+export const CALIBRATION_MIN_SOLIDITY_GAP = 0.06; // Open and closed must differ this much for the on-device fit
+export const CALIBRATION_CHECK_SEQUENCE: CalibrationGesture[] = ['OPEN', 'CLOSED', 'CLOSED', 'OPEN', 'CLOSED', 'OPEN'];
+export const CALIBRATION_CHECK_FRAMES = 3; // Classified per prompt; the first ones let redaction find the hand
+export const CALIBRATION_MIN_ACCURACY = 0.8; // Below this the wizard suggests another go
+
+// Gesture bindings
+export const BINDINGS_STORAGE_KEY = 'saturn-nebula.bindings';
+export const CAMERA_ZOOM_STEP = 0.75; // Distance multiplier per zoom-in
+export const CAMERA_ROTATE_STEP = Math.PI / 4; // Radians per rotate action
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  [GestureState.OPEN]: 'disperse',
+  [GestureState.CLOSED]: 'reform',
+  [GestureState.POINT]: 'nextPhrase',
+  [GestureState.PINCH]: 'zoomIn',
+  [GestureState.THUMBS_UP]: 'toggleAutoRotate',
+  [GestureState.PEACE]: 'toggleInfo',
+  [GestureState.SWIPE_LEFT]: 'rotateLeft',
+  [GestureState.SWIPE_RIGHT]: 'rotateRight'
+};
+
+export const GESTURE_LABELS: Record<BindableGesture, string> = {
+  [GestureState.OPEN]: 'Open Hand',
+  [GestureState.CLOSED]: 'Fist',
+  [GestureState.POINT]: 'Point',
+  [GestureState.PINCH]: 'Pinch',
+  [GestureState.THUMBS_UP]: 'Thumbs Up',
+  [GestureState.PEACE]: 'Peace Sign',
+  [GestureState.SWIPE_LEFT]: 'Swipe Left',
+  [GestureState.SWIPE_RIGHT]: 'Swipe Right'
+};
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  none: 'Nothing',
+  disperse: 'Disperse',
+  reform: 'Reform Planet',
+  nextPhrase: 'Next Phrase',
+  zoomIn: 'Zoom In',
+  zoomOut: 'Zoom Out',
+  rotateLeft: 'Rotate Left',
+  rotateRight: 'Rotate Right',
+  toggleAutoRotate: 'Pause/Resume Auto-Rotate',
+  toggleInfo: 'Toggle Info Card',
+  nextFormation: 'Next Formation',
+  capture: 'Capture Moment'
+};
+
+// Live settings. Defaults mirror the constants above; ranges bound the panel and shared URLs.
+export const SETTINGS_QUERY_PARAM = 'look'; // e.g. ?look=sr:18,ro:55
+export const CUSTOM_PRESETS_STORAGE_KEY = 'saturn-nebula.presets';
+
+export const DEFAULT_VISUAL_SETTINGS: VisualSettings = {
+  saturnRadius: SATURN_RADIUS,
+  ringInnerRadius: RING_INNER_RADIUS,
+  ringOuterRadius: RING_OUTER_RADIUS,
+  planetShare: PLANET_PARTICLE_SHARE,
+  ringOrbitSpeed: RING_ORBIT_SPEED,
+  tiltX: SATURN_TILT_X_DEG,
+  tiltZ: SATURN_TILT_Z_DEG,
+  expansionScale: EXPANSION_SCALE,
+  expansionLerpSpeed: EXPANSION_LERP_SPEED,
+  springFormed: SIM_SPRING_FORMED,
+  damping: SIM_DAMPING,
+  curlStrength: SIM_CURL_STRENGTH,
+  burstStrength: SIM_BURST_STRENGTH,
+  cameraCheckIntervalMs: CAMERA_CHECK_INTERVAL_MS,
+  quality: 'auto'
+};
+
+export const SETTINGS_SCHEMA: NumericSettingDefinition[] = [
+  { key: 'saturnRadius', param: 'sr', label: 'Planet radius', group: 'shape', min: 5, max: 30, step: 0.5 },
+  { key: 'ringInnerRadius', param: 'ri', label: 'Ring inner edge', group: 'shape', min: 8, max: 60, step: 0.5 },
+  { key: 'ringOuterRadius', param: 'ro', label: 'Ring outer edge', group: 'shape', min: 10, max: 90, step: 0.5 },
+  { key: 'planetShare', param: 'ps', label: 'Planet share', group: 'shape', min: 0.1, max: 0.9, step: 0.05 },
+  { key: 'ringOrbitSpeed', param: 'rs', label: 'Ring orbit speed', group: 'shape', min: 0, max: 1, step: 0.01, unit: 'rad/s' },
+  { key: 'tiltX', param: 'tx', label: 'Tilt forward', group: 'shape', min: -90, max: 90, step: 1, unit: '°' },
+  { key: 'tiltZ', param: 'tz', label: 'Tilt sideways', group: 'shape', min: -90, max: 90, step: 1, unit: '°' },
+  { key: 'expansionScale', param: 'es', label: 'Nebula spread', group: 'motion', min: 10, max: 120, step: 1 },
+  { key: 'expansionLerpSpeed', param: 'el', label: 'Disperse speed', group: 'motion', min: 0.005, max: 0.2, step: 0.005 },
+  { key: 'springFormed', param: 'sf', label: 'Formation pull', group: 'motion', min: 1, max: 20, step: 0.5 },
+  { key: 'damping', param: 'dm', label: 'Damping', group: 'motion', min: 0.5, max: 8, step: 0.1 },
+  { key: 'curlStrength', param: 'ct', label: 'Turbulence', group: 'motion', min: 0, max: 80, step: 1 },
+  { key: 'burstStrength', param: 'bs', label: 'Burst', group: 'motion', min: 0, max: 600, step: 10 },
+  { key: 'cameraCheckIntervalMs', param: 'ci', label: 'Gesture check', group: 'system', min: 200, max: 3000, step: 50, unit: 'ms' }
+];
+
+export const SETTINGS_PRESETS: SettingsPreset[] = [
+  { id: 'classic', name: 'Classic', settings: {}, builtin: true },
+  { id: 'wide-rings', name: 'Wide Rings', settings: { ringInnerRadius: 22, ringOuterRadius: 70, planetShare: 0.25 }, builtin: true },
+  { id: 'gas-giant', name: 'Gas Giant', settings: { saturnRadius: 22, ringInnerRadius: 28, ringOuterRadius: 36, planetShare: 0.6 }, builtin: true },
+  { id: 'edge-on', name: 'Edge On', settings: { tiltX: 2, tiltZ: 4 }, builtin: true },
+  { id: 'calm', name: 'Calm', settings: { curlStrength: 8, damping: 4, burstStrength: 80, expansionLerpSpeed: 0.02 }, builtin: true },
+  { id: 'supernova', name: 'Supernova', settings: { burstStrength: 600, curlStrength: 60, expansionScale: 90, damping: 1.2 }, builtin: true }
+];
+
+// Capture & export
+export const CAPTURE_SCALE = 2; // Screenshots render at this multiple of the on-screen resolution
+export const CAPTURE_MAX_EDGE = 4096; // ...but never wider or taller than this
+export const SHARE_CARD_WIDTH = 1200;
+export const SHARE_CARD_HEIGHT = 630;
+export const CLIP_DURATIONS_S = [5, 10, 20];
+export const DEFAULT_CLIP_DURATION_S = 10;
+export const CLIP_FPS = 30;
+export const CLIP_BITRATE = 8_000_000;
+export const CAPTURE_FILE_PREFIX = 'saturn-nebula';
+
+// Accessibility
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { key: ' ', label: 'Space', action: 'toggleExpansion', description: 'Disperse / reform' },
+  { key: 'n', label: 'N', action: 'nextPhrase', description: 'Next phrase' },
+  { key: 'i', label: 'I', action: 'toggleInfo', description: 'Show / hide help' },
+  { key: 'f', label: 'F', action: 'toggleFullscreen', description: 'Fullscreen' },
+  { key: 'l', label: 'L', action: 'toggleLabels', description: 'Show / hide labels' },
+  { key: 'e', label: 'E', action: 'toggleExplorer', description: 'Solar system explorer' },
+  { key: 'arrowleft', label: '←', action: 'previousPlanet', description: 'Previous planet' },
+  { key: 'arrowright', label: '→', action: 'nextPlanet', description: 'Next planet' },
+  { key: 'd', label: 'D', action: 'toggleDiagnostics', description: 'Diagnostics' },
+  { key: 'escape', label: 'Esc', action: 'closePanel', description: 'Close panel' }
+];
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+export const REDUCED_MOTION_SCALE = 0.2; // Turbulence and burst multiplier when motion is reduced
@@ -0,0 +1,182 @@
+// Local stand-in for the Gemini generateContent endpoint.
+// Lets the vision pipeline and phrase generation run (and be checked) with no
+// network and no API key.
+//
+//   npm run mock:gemini
+//   GEMINI_BASE_URL=http://localhost:8787 npm run dev
+//
+// Pick a scenario per client by prefixing the base URL with /scenario/<name>,
+// e.g. GEMINI_BASE_URL=http://localhost:8787/scenario/quota
+// or globally with MOCK_SCENARIO=<name>.
+//
+// Tests start it in-process with startMockGeminiServer().
+
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const structured = (payload) => ({
+  candidates: [
+    {
+      content: { role: 'model', parts: [{ text: typeof payload === 'string' ? payload : JSON.stringify(payload) }] },
+      finishReason: 'STOP',
+      index: 0
+    }
+  ],
+  usageMetadata: { promptTokenCount: 270, candidatesTokenCount: 20, totalTokenCount: 290 }
+});
+
+const googleError = (code, status, message, details) => ({ error: { code, status, message, ...(details && { details }) } });
+
+const PHRASE_SEEDS = [
+  'Your light travels farther than you know',
+  'Every orbit brings you home again',
+  'Stardust remembers the shape of your dreams',
+  'Quiet moons still move the tides',
+  'You are a constellation still being drawn',
+  'The night sky keeps a seat for you',
+  'Small stars still light the way',
+  'Gravity is just the universe holding on',
+  'Comets return, and so will your courage',
+  'Even nebulae take time to become stars',
+  'Your path bends gently toward the light',
+  'Somewhere a star is cheering for you'
+];
+
+// Phrase requests are told apart from frames by their response schema
+const isPhraseRequest = (body) => body.includes('"phrases"');
+const PHRASE_SCENARIOS = new Set(['open', 'closed', 'none', 'cycle', 'two-hands', 'out-of-range', 'unknown-gesture']);
+
+// One hand centred at (x, y) in the raw frame
+const hand = (gesture, confidence, openness, x, y = 0.5) => ({
+  gesture, confidence, openness,
+  position: { x, y },
+  boundingBox: { x: x - 0.1, y: y - 0.15, width: 0.2, height: 0.3 }
+});
+
+// The top level describes the most prominent hand, `hands` lists all of them
+const hands = (...list) => ({ ...list[0], hands: list });
+
+// Each scenario returns [httpStatus, body] or null to never answer (timeout).
+// Counters are per server, so every test starts from the same answers.
+const createScenarios = () => {
+  let cycleCount = 0;
+  let phraseBatch = 0;
+
+  // Numbered per batch so the app's duplicate filter keeps them
+  const phraseList = () => {
+    const batch = ++phraseBatch;
+    return structured({ phrases: PHRASE_SEEDS.map(p => (batch === 1 ? p : `${p}, ${batch} times over`)) });
+  };
+
+  const scenarios = {
+    open: () => [200, structured(hands(hand('OPEN', 0.93, 0.9, 0.5)))],
+    closed: () => [200, structured(hands(hand('CLOSED', 0.91, 0.05, 0.5)))],
+    none: () => [200, structured({ gesture: 'NONE', confidence: 0.8, openness: 0, hands: [] })],
+    // Two hands out of step: the user's left opens and closes every 5 requests, the right every 8
+    'two-hands': () => {
+      const n = cycleCount++;
+      const left = Math.floor(n / 5) % 2 === 0 ? hand('OPEN', 0.9, 0.9, 0.7) : hand('CLOSED', 0.9, 0.05, 0.7);
+      const right = Math.floor(n / 8) % 2 === 0 ? hand('CLOSED', 0.88, 0.1, 0.3) : hand('OPEN', 0.88, 0.85, 0.3);
+      return [200, structured(hands(left, right))];
+    },
+    // Alternates OPEN/CLOSED every 5 requests so the planet visibly reacts
+    cycle: () => {
+      const open = Math.floor(cycleCount++ / 5) % 2 === 0;
+      return open ? scenarios.open() : scenarios.closed();
+    },
+    malformed: () => [200, structured('{"gesture": "OPEN", "confidence": ')],
+    empty: () => [200, { candidates: [{ content: { role: 'model', parts: [] }, finishReason: 'STOP' }] }],
+    'out-of-range': () => [200, structured({ gesture: 'OPEN', confidence: 7.5, openness: -2 })],
+    'unknown-gesture': () => [200, structured({ gesture: 'WAVE', confidence: 0.9 })],
+    // Phrases that break the length and tone rules; the app should keep none of them
+    'unsafe-phrases': () => [200, structured({ phrases: ['Hi', 'WE ARE ALL STARS TONIGHT', 'Fear the dark side of the moon', 'Shine on ✨ #cosmos', 'One. Two. Three stars.'] })],
+    quota: () => [429, googleError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded for quota metric generate_content_requests.', [
+      { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '20s' }
+    ])],
+    auth: () => [400, googleError(400, 'INVALID_ARGUMENT', 'API key not valid. Please pass a valid API key.')],
+    'server-error': () => [500, googleError(500, 'INTERNAL', 'Internal error encountered.')],
+    timeout: () => null
+  };
+
+  return { scenarios, phraseList };
+};
+
+const parseRoute = (url, defaultScenario) => {
+  const match = url.match(/^(?:\/scenario\/([^/]+))?\/[^/]+\/models\/([^/:]+):generateContent/);
+  if (!match) return null;
+  return { scenario: match[1] ?? defaultScenario, model: match[2] };
+};
+
+// Resolves once listening. Port 0 picks a free one; the base URL to hand the client comes back.
+export const startMockGeminiServer = ({
+  port = 0,
+  defaultScenario = 'cycle',
+  hangMs = 120000, // How long the timeout scenario holds a request before dropping it
+  log = () => {}
+} = {}) => {
+  const { scenarios, phraseList } = createScenarios();
+
+  const server = http.createServer((req, res) => {
+    // The app calls this from the browser
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const route = req.method === 'POST' ? parseRoute(req.url ?? '', defaultScenario) : null;
+    if (!route || !scenarios[route.scenario]) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(googleError(404, 'NOT_FOUND', `No mock for ${req.method} ${req.url}`)));
+      return;
+    }
+
+    // Read the request (frame or phrase prompt) before answering, like the real API
+    let payload = '';
+    req.on('data', (chunk) => { payload += chunk; });
+    req.on('end', () => {
+      const result = isPhraseRequest(payload) && PHRASE_SCENARIOS.has(route.scenario)
+        ? [200, phraseList()]
+        : scenarios[route.scenario]();
+      log(`${new Date().toISOString()} ${route.model} [${route.scenario}] -> ${result ? result[0] : 'hang'}`);
+
+      if (!result) {
+        const timer = setTimeout(() => res.destroy(), hangMs);
+        res.on('close', () => clearTimeout(timer));
+        return;
+      }
+
+      const [status, body] = result;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      const { port: actualPort } = server.address();
+      resolve({
+        url: `http://localhost:${actualPort}`,
+        scenarios: Object.keys(scenarios),
+        close: () => new Promise((done) => {
+          server.closeAllConnections();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const defaultScenario = process.env.MOCK_SCENARIO ?? 'cycle';
+  const { url, scenarios } = await startMockGeminiServer({
+    port: Number(process.env.MOCK_PORT ?? 8787),
+    defaultScenario,
+    hangMs: Number(process.env.MOCK_TIMEOUT_MS ?? 120000),
+    log: console.log
+  });
+  console.log(`Mock Gemini listening on ${url} (default scenario: ${defaultScenario})`);
+  console.log(`Scenarios: ${scenarios.join(', ')}`);
+}
@@ -0,0 +1,24 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GestureState } from '../types';
+import { BINDINGS_STORAGE_KEY, DEFAULT_GESTURE_BINDINGS } from '../constants';
+import { loadBindings } from './bindingsService';
+
+const stored = (value: unknown) => {
+  vi.stubGlobal('localStorage', { getItem: (key: string) => key === BINDINGS_STORAGE_KEY ? JSON.stringify(value) : null });
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('loadBindings', () => {
+  it('merges stored actions over the defaults', () => {
+    stored({ [GestureState.POINT]: 'zoomOut' });
+    expect(loadBindings()).toEqual({ ...DEFAULT_GESTURE_BINDINGS, [GestureState.POINT]: 'zoomOut' });
+  });
+
+  it('ignores names inherited from Object.prototype', () => {
+    stored({ [GestureState.OPEN]: 'toString', [GestureState.CLOSED]: 'constructor', [GestureState.PEACE]: '__proto__' });
+    expect(loadBindings()).toEqual(DEFAULT_GESTURE_BINDINGS);
+  });
+});
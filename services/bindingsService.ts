@@ -0,0 +1,57 @@
+import { BindableGesture, GestureAction, GestureBindings, InteractionMode } from "../types";
+import {
+  BINDINGS_STORAGE_KEY,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_ACTION_LABELS,
+  INTERACTION_MODE_LABELS,
+  INTERACTION_QUERY_PARAM,
+  INTERACTION_STORAGE_KEY
+} from "../constants";
+
+const isAction = (value: unknown): value is GestureAction =>
+  typeof value === 'string' && Object.hasOwn(GESTURE_ACTION_LABELS, value);
+
+// Stored bindings are merged over the defaults, so new gestures pick up a sane action
+export const loadBindings = (): GestureBindings => {
+  const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+  try {
+    const stored = JSON.parse(localStorage.getItem(BINDINGS_STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    for (const gesture of Object.keys(bindings) as BindableGesture[]) {
+      if (isAction(stored[gesture])) bindings[gesture] = stored[gesture];
+    }
+  } catch (error) {
+    console.warn("Ignoring unreadable gesture bindings:", error);
+  }
+  return bindings;
+};
+
+export const saveBindings = (bindings: GestureBindings) => {
+  try {
+    localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn("Could not save gesture bindings:", error);
+  }
+};
+
+const INTERACTION_MODES = Object.keys(INTERACTION_MODE_LABELS) as InteractionMode[];
+
+// ?interaction= sets up a kiosk without touching its storage; otherwise the last choice
+export const loadInteractionMode = (): InteractionMode => {
+  const requested = new URLSearchParams(window.location.search).get(INTERACTION_QUERY_PARAM) as InteractionMode | null;
+  if (requested && INTERACTION_MODES.includes(requested)) return requested;
+  try {
+    const stored = localStorage.getItem(INTERACTION_STORAGE_KEY) as InteractionMode | null;
+    if (stored && INTERACTION_MODES.includes(stored)) return stored;
+  } catch (error) {
+    console.warn("Ignoring unreadable interaction mode:", error);
+  }
+  return 'single';
+};
+
+export const saveInteractionMode = (mode: InteractionMode) => {
+  try {
+    localStorage.setItem(INTERACTION_STORAGE_KEY, mode);
+  } catch (error) {
+    console.warn("Could not save interaction mode:", error);
+  }
+};
@@ -0,0 +1,168 @@
+import { CalibrationExample, CalibrationGesture, CalibrationProfile, LocalCalibration } from "../types";
+import {
+  CALIBRATION_EXAMPLE_SIZE,
+  CALIBRATION_FEW_SHOT_PER_GESTURE,
+  CALIBRATION_GUIDE_BOX,
+  CALIBRATION_MIN_SOLIDITY_GAP,
+  CALIBRATION_STORAGE_KEY
+} from "../constants";
+import { DEFAULT_LOCAL_CALIBRATION, classifyPixels, createPixelReader, measureChroma, measureSolidity } from "./localVisionService";
+import { createFrameRedactor } from "./privacyService";
+
+// Half-widths of the default skin range, kept when it's re-centred on someone's skin
+const CB_HALF_RANGE = 25;
+const CR_HALF_RANGE = 20;
+// A palm whose chroma falls outside this is more likely background than skin
+const PLAUSIBLE_CB: [number, number] = [67, 137];
+const PLAUSIBLE_CR: [number, number] = [123, 183];
+
+// The middle of the guide box, where the palm is whatever the pose
+const PALM_REGION = {
+  x: CALIBRATION_GUIDE_BOX.x + CALIBRATION_GUIDE_BOX.width / 4,
+  y: CALIBRATION_GUIDE_BOX.y + CALIBRATION_GUIDE_BOX.height / 4,
+  width: CALIBRATION_GUIDE_BOX.width / 2,
+  height: CALIBRATION_GUIDE_BOX.height / 2
+};
+
+// One reference frame. Pixels stay in memory for fitting; only chosen crops are stored.
+export interface CalibrationCapture {
+  gesture: CalibrationGesture;
+  pixels: Uint8ClampedArray; // At the on-device recognizer's analysis resolution
+  image: string; // JPEG crop of the guide box
+}
+
+// Grabs captures from the live video: the whole frame for fitting, the guide box for examples.
+// Examples go out with every cloud request, so they're redacted like live frames:
+// the hand the on-device recognizer finds stays sharp, the rest of the box is blurred.
+export const createCalibrationCapturer = () => {
+  const readPixels = createPixelReader();
+  const redactor = createFrameRedactor();
+  const frame = document.createElement('canvas');
+  const frameContext = frame.getContext('2d');
+  const crop = document.createElement('canvas');
+  const cropContext = crop.getContext('2d');
+
+  return (video: HTMLVideoElement, gesture: CalibrationGesture): CalibrationCapture | null => {
+    if (!frameContext || !cropContext || video.videoWidth === 0 || video.videoHeight === 0) return null;
+    const pixels = readPixels(video);
+    if (!pixels) return null;
+
+    frame.width = video.videoWidth;
+    frame.height = video.videoHeight;
+    frameContext.drawImage(video, 0, 0);
+    const now = performance.now();
+    redactor.update(classifyPixels(pixels), now);
+    const redacted = redactor.redact(frame, now);
+
+    const box = CALIBRATION_GUIDE_BOX;
+    const sourceWidth = box.width * video.videoWidth;
+    const sourceHeight = box.height * video.videoHeight;
+    const scale = CALIBRATION_EXAMPLE_SIZE / Math.max(sourceWidth, sourceHeight);
+    crop.width = Math.round(sourceWidth * scale);
+    crop.height = Math.round(sourceHeight * scale);
+    cropContext.drawImage(
+      redacted,
+      box.x * video.videoWidth, box.y * video.videoHeight, sourceWidth, sourceHeight,
+      0, 0, crop.width, crop.height
+    );
+    return { gesture, pixels, image: crop.toDataURL('image/jpeg', 0.8) };
+  };
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+const within = (value: number, [min, max]: [number, number]) => value >= min && value <= max;
+
+// Re-centres the skin range on the palm's colour, then puts the open/closed cut-off
+// halfway between the two poses. null when the poses can't be told apart.
+export const fitLocalCalibration = (captures: CalibrationCapture[]): LocalCalibration | null => {
+  if (captures.length === 0) return null;
+
+  const chroma = captures.map(capture => measureChroma(capture.pixels, PALM_REGION));
+  const cb = median(chroma.map(c => c.cb));
+  const cr = median(chroma.map(c => c.cr));
+  const skin = within(cb, PLAUSIBLE_CB) && within(cr, PLAUSIBLE_CR)
+    ? { cb: [cb - CB_HALF_RANGE, cb + CB_HALF_RANGE] as [number, number], cr: [cr - CR_HALF_RANGE, cr + CR_HALF_RANGE] as [number, number] }
+    : { cb: DEFAULT_LOCAL_CALIBRATION.cb, cr: DEFAULT_LOCAL_CALIBRATION.cr };
+  const candidate: LocalCalibration = { ...DEFAULT_LOCAL_CALIBRATION, ...skin };
+
+  const solidities = (gesture: CalibrationGesture) => {
+    const poses = captures.filter(capture => capture.gesture === gesture);
+    const measured = poses
+      .map(capture => measureSolidity(capture.pixels, candidate))
+      .filter((value): value is number => value !== null);
+    // Most frames must show a hand, or the fit is guessing
+    return measured.length * 2 >= poses.length && measured.length > 0 ? measured : null;
+  };
+
+  const open = solidities('OPEN');
+  const closed = solidities('CLOSED');
+  if (!open || !closed) return null;
+
+  const spreadSolidity = mean(open);
+  const fistSolidity = mean(closed);
+  if (fistSolidity - spreadSolidity < CALIBRATION_MIN_SOLIDITY_GAP) return null;
+
+  return { ...candidate, openSolidity: (spreadSolidity + fistSolidity) / 2, fistSolidity, spreadSolidity };
+};
+
+// The middle captures of each pose: by then the hand has settled
+const pickExamples = (captures: CalibrationCapture[]): CalibrationExample[] =>
+  (['OPEN', 'CLOSED'] as CalibrationGesture[]).flatMap(gesture => {
+    const poses = captures.filter(capture => capture.gesture === gesture);
+    const start = Math.max(0, Math.floor((poses.length - CALIBRATION_FEW_SHOT_PER_GESTURE) / 2));
+    return poses.slice(start, start + CALIBRATION_FEW_SHOT_PER_GESTURE).map(({ image }) => ({ gesture, image }));
+  });
+
+export const buildCalibrationProfile = (captures: CalibrationCapture[]): CalibrationProfile => ({
+  version: 1,
+  createdAt: new Date().toISOString(),
+  examples: pickExamples(captures),
+  local: fitLocalCalibration(captures),
+  accuracy: null
+});
+
+const isRange = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number');
+
+const isLocalCalibration = (value: unknown): value is LocalCalibration => {
+  const c = value as LocalCalibration;
+  return !!c && isRange(c.cb) && isRange(c.cr) &&
+    [c.openSolidity, c.fistSolidity, c.spreadSolidity].every(n => typeof n === 'number');
+};
+
+const isExample = (value: unknown): value is CalibrationExample => {
+  const e = value as CalibrationExample;
+  return !!e && (e.gesture === 'OPEN' || e.gesture === 'CLOSED') && typeof e.image === 'string' && e.image.startsWith('data:image/jpeg');
+};
+
+export const loadCalibration = (): CalibrationProfile | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CALIBRATION_STORAGE_KEY) ?? 'null') as CalibrationProfile | null;
+    if (stored?.version !== 1 || !Array.isArray(stored.examples) || !stored.examples.every(isExample)) return null;
+    return {
+      version: 1,
+      createdAt: String(stored.createdAt),
+      examples: stored.examples,
+      local: isLocalCalibration(stored.local) ? stored.local : null,
+      accuracy: typeof stored.accuracy === 'number' ? stored.accuracy : null
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable calibration:", error);
+    return null;
+  }
+};
+
+export const saveCalibration = (profile: CalibrationProfile | null) => {
+  try {
+    if (profile) {
+      localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(profile));
+    } else {
+      localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("Could not save calibration:", error);
+  }
+};
@@ -0,0 +1,93 @@
+import { CameraDevice, CameraError, CameraPreferences } from "../types";
+import { CAMERA_RESOLUTIONS, CAMERA_STORAGE_KEY, DEFAULT_CAMERA_PREFERENCES } from "../constants";
+
+const ERROR_MESSAGES: Record<CameraError['kind'], string> = {
+  denied: "Camera permission denied. Allow it in the site settings, then retry.",
+  'not-found': "No camera found. Connect one, then retry.",
+  busy: "Camera is in use by another app. Close it, then retry.",
+  unknown: "Camera unavailable."
+};
+
+// getUserMedia reports failures as DOMExceptions; older browsers used different names
+export const classifyCameraError = (error: unknown): CameraError => {
+  const name = error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return { kind: 'denied', message: ERROR_MESSAGES.denied };
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return { kind: 'not-found', message: ERROR_MESSAGES['not-found'] };
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return { kind: 'busy', message: ERROR_MESSAGES.busy };
+    default:
+      return { kind: 'unknown', message: ERROR_MESSAGES.unknown };
+  }
+};
+
+export const cameraErrorOf = (kind: CameraError['kind']): CameraError => ({ kind, message: ERROR_MESSAGES[kind] });
+
+// Labels stay empty until the page has camera permission, so number them instead
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }));
+};
+
+const constraintsFor = (preferences: CameraPreferences, useDevice: boolean): MediaTrackConstraints => {
+  const resolution = CAMERA_RESOLUTIONS.find(r => r.id === preferences.resolution) ?? CAMERA_RESOLUTIONS[0];
+  return {
+    ...(useDevice && preferences.deviceId ? { deviceId: { exact: preferences.deviceId } } : { facingMode: 'user' }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height }
+  };
+};
+
+// Opens the preferred camera. If it's gone (unplugged since last time), falls back to the default one.
+export const openCamera = async (preferences: CameraPreferences): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw Object.assign(new Error("Camera access needs a secure (https) page."), { name: 'SecurityError' });
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: constraintsFor(preferences, true) });
+  } catch (error) {
+    const missing = error instanceof Error && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+    if (!preferences.deviceId || !missing) throw error;
+    return navigator.mediaDevices.getUserMedia({ video: constraintsFor(preferences, false) });
+  }
+};
+
+export const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+export const streamDeviceId = (stream: MediaStream | null): string | null =>
+  stream?.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+
+export const loadCameraPreferences = (): CameraPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CAMERA_STORAGE_KEY) ?? '{}') as Partial<CameraPreferences>;
+    return {
+      deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : DEFAULT_CAMERA_PREFERENCES.deviceId,
+      resolution: CAMERA_RESOLUTIONS.some(r => r.id === stored.resolution) ? stored.resolution! : DEFAULT_CAMERA_PREFERENCES.resolution,
+      mirror: typeof stored.mirror === 'boolean' ? stored.mirror : DEFAULT_CAMERA_PREFERENCES.mirror
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable camera preferences:", error);
+    return { ...DEFAULT_CAMERA_PREFERENCES };
+  }
+};
+
+export const saveCameraPreferences = (preferences: CameraPreferences) => {
+  try {
+    localStorage.setItem(CAMERA_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("Could not save camera preferences:", error);
+  }
+};
@@ -0,0 +1,208 @@
+import { FrameCapturer, PhraseOverlayState } from "../types";
+import {
+  CAPTURE_FILE_PREFIX,
+  CLIP_BITRATE,
+  CLIP_FPS,
+  SHARE_CARD_HEIGHT,
+  SHARE_CARD_WIDTH
+} from "../constants";
+
+const PHRASE_FONT = 'Inter, sans-serif';
+const BACKGROUND = '#020205';
+const CLIP_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const CLIP_MAX_EDGE = 1920; // Encoders struggle above 1080p
+
+// Make sure the webfont is ready, or the first capture falls back to a system font
+const loadFont = async (px: number) => {
+  try {
+    await document.fonts.load(`200 ${px}px Inter`);
+  } catch {
+    // Fall back to whatever is available
+  }
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Mirrors the centre overlay: thin white type with a soft glow
+const drawPhrase = (
+  ctx: CanvasRenderingContext2D,
+  phrase: PhraseOverlayState,
+  centerX: number,
+  centerY: number,
+  maxWidth: number,
+  fontSize: number
+) => {
+  if (!phrase.text || phrase.opacity <= 0) return;
+  ctx.save();
+  ctx.globalAlpha = phrase.opacity;
+  ctx.font = `200 ${fontSize}px ${PHRASE_FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.shadowColor = 'rgba(255, 255, 255, 0.3)';
+  ctx.shadowBlur = fontSize * 0.35;
+
+  const lines = wrapText(ctx, phrase.text, maxWidth);
+  const lineHeight = fontSize * 1.25;
+  const top = centerY - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, centerX, top + i * lineHeight));
+  ctx.restore();
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D is not available.");
+  return { canvas, ctx };
+};
+
+// Phrase size tracks the image, so it matches the overlay at any resolution
+const phraseFontSize = (width: number, height: number) => Math.round(Math.min(width / 14, height / 9));
+
+export const composeScreenshot = async (frame: HTMLCanvasElement, phrase: PhraseOverlayState | null) => {
+  const { canvas, ctx } = createCanvas(frame.width, frame.height);
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(frame, 0, 0);
+  if (phrase) {
+    const fontSize = phraseFontSize(canvas.width, canvas.height);
+    await loadFont(fontSize);
+    drawPhrase(ctx, phrase, canvas.width / 2, canvas.height / 2, canvas.width * 0.8, fontSize);
+  }
+  return canvas;
+};
+
+// A fixed-size card for social sharing: the frozen nebula behind the phrase, with a title and date
+export const composeShareCard = async (frame: HTMLCanvasElement, phrase: PhraseOverlayState | null) => {
+  const width = SHARE_CARD_WIDTH;
+  const height = SHARE_CARD_HEIGHT;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+
+  // Cover-fit the frame
+  const scale = Math.max(width / frame.width, height / frame.height);
+  const w = frame.width * scale;
+  const h = frame.height * scale;
+  ctx.drawImage(frame, (width - w) / 2, (height - h) / 2, w, h);
+
+  // Darken the edges so the type reads on any frame
+  const vignette = ctx.createRadialGradient(width / 2, height / 2, height * 0.2, width / 2, height / 2, width * 0.7);
+  vignette.addColorStop(0, 'rgba(2, 2, 5, 0.25)');
+  vignette.addColorStop(1, 'rgba(2, 2, 5, 0.85)');
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, width, height);
+
+  const accent = ctx.createLinearGradient(0, 0, width, 0);
+  accent.addColorStop(0, 'rgba(59, 130, 246, 0.6)');
+  accent.addColorStop(0.5, 'rgba(168, 85, 247, 0.6)');
+  accent.addColorStop(1, 'rgba(249, 115, 22, 0.6)');
+  ctx.fillStyle = accent;
+  ctx.fillRect(0, 0, width, 4);
+
+  await loadFont(56);
+  if (phrase?.text) {
+    drawPhrase(ctx, { ...phrase, opacity: 1 }, width / 2, height / 2 - 10, width * 0.8, 56);
+  }
+
+  ctx.font = `200 18px ${PHRASE_FONT}`;
+  ctx.letterSpacing = '6px';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+  ctx.fillText('SATURN NEBULA', 48, height - 44);
+  ctx.textAlign = 'right';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.fillText(new Date().toLocaleDateString(phrase?.locale, { year: 'numeric', month: 'long', day: 'numeric' }).toUpperCase(), width - 48, height - 44);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png') =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error("Could not encode the image.")), type);
+  });
+
+export const downloadBlob = (blob: Blob, suffix: string, extension: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${CAPTURE_FILE_PREFIX}-${suffix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+  link.click();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const supportedClipType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return CLIP_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export interface ClipRecording {
+  readonly done: Promise<Blob>;
+  stop(): void; // Finish early; `done` still resolves with what was recorded
+}
+
+// Records the canvas with the phrase overlay composited on every rendered frame
+export const recordClip = (
+  capturer: FrameCapturer,
+  getPhrase: () => PhraseOverlayState | null,
+  durationMs: number
+): ClipRecording => {
+  const mimeType = supportedClipType();
+  if (!mimeType) throw new Error("This browser can't record video.");
+
+  const source = capturer.canvas;
+  const fit = Math.min(1, CLIP_MAX_EDGE / Math.max(source.width, source.height));
+  const { canvas, ctx } = createCanvas(Math.round(source.width * fit), Math.round(source.height * fit));
+  const fontSize = phraseFontSize(canvas.width, canvas.height);
+  void loadFont(fontSize);
+
+  const unsubscribe = capturer.onFrame(() => {
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    const phrase = getPhrase();
+    if (phrase) drawPhrase(ctx, phrase, canvas.width / 2, canvas.height / 2, canvas.width * 0.8, fontSize);
+  });
+
+  const stream = canvas.captureStream(CLIP_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: CLIP_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const done = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error("Recording failed."));
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stop = () => {
+    clearTimeout(timer);
+    unsubscribe();
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+  };
+  done.catch(stop);
+
+  recorder.start(1000);
+  timer = setTimeout(stop, durationMs);
+  return { done, stop };
+};
@@ -0,0 +1,107 @@
+import { ClassificationEntry, DiagnosticsSnapshot, GestureRecognizer, LatencyStats, LinkHealth, PerformanceStats, VisionResult } from "../types";
+import { DIAGNOSTICS_LATENCY_SAMPLES, DIAGNOSTICS_TIMELINE_LENGTH } from "../constants";
+import { downloadBlob } from "./captureService";
+
+export interface Diagnostics {
+  setBackend(backend: GestureRecognizer['backend'] | null): void;
+  requestStarted(): number; // Returns the start time to hand back to requestFinished
+  requestFinished(startedAt: number, outcome: VisionResult): void;
+  recordPerformance(stats: PerformanceStats): void;
+  recordScene(expansion: { x: number; y: number }, particles: number): void; // Called every frame, so it only stores
+  snapshot(): DiagnosticsSnapshot;
+}
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+const latencyStats = (samples: number[]): LatencyStats | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    p99: percentile(sorted, 0.99),
+    max: sorted[sorted.length - 1]
+  };
+};
+
+// Collects what the vision and render pipelines are doing. Recording is cheap
+// mutation; the HUD polls snapshot() while it's open, so nothing re-renders per frame.
+export const createDiagnostics = (): Diagnostics => {
+  const startedAt = performance.now();
+  const latencies: number[] = [];
+  const timeline: ClassificationEntry[] = [];
+  let backend: DiagnosticsSnapshot['backend'] = null;
+  let inFlight = 0;
+  let requests = 0;
+  let errors = 0;
+  let lastError: DiagnosticsSnapshot['lastError'] = null;
+  let lastResponse: DiagnosticsSnapshot['lastResponse'] = null;
+  let lastResponseAt: number | null = null;
+  let stats: PerformanceStats | null = null;
+  const expansion: [number, number] = [0, 0];
+  let particles = 0;
+
+  return {
+    setBackend: (next) => {
+      backend = next;
+    },
+    requestStarted: () => {
+      inFlight++;
+      return performance.now();
+    },
+    requestFinished: (requestStartedAt, outcome) => {
+      const now = performance.now();
+      inFlight = Math.max(0, inFlight - 1);
+      requests++;
+      latencies.push(now - requestStartedAt);
+      if (latencies.length > DIAGNOSTICS_LATENCY_SAMPLES) latencies.shift();
+
+      if (outcome.ok === false) {
+        errors++;
+        lastError = outcome.error;
+        return;
+      }
+      lastResponse = outcome.response;
+      lastResponseAt = now - startedAt;
+      timeline.push({ t: Math.round(lastResponseAt), gesture: outcome.response.gesture, confidence: outcome.response.confidence });
+      if (timeline.length > DIAGNOSTICS_TIMELINE_LENGTH) timeline.shift();
+    },
+    recordPerformance: (next) => {
+      stats = next;
+    },
+    recordScene: (groups, count) => {
+      expansion[0] = groups.x;
+      expansion[1] = groups.y;
+      particles = count;
+    },
+    snapshot: () => ({
+      uptimeMs: Math.round(performance.now() - startedAt),
+      backend,
+      inFlight,
+      requests,
+      errors,
+      latency: latencyStats(latencies),
+      lastError,
+      lastResponse,
+      lastResponseAt: lastResponseAt === null ? null : Math.round(lastResponseAt),
+      timeline: [...timeline],
+      performance: stats,
+      expansion: [expansion[0], expansion[1]],
+      particles
+    })
+  };
+};
+
+// A JSON file to attach to bug reports. No frames: only numbers and recognizer answers.
+export const exportDiagnostics = (snapshot: DiagnosticsSnapshot, link: LinkHealth | null) => {
+  const report = {
+    exportedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    viewport: { width: window.innerWidth, height: window.innerHeight, devicePixelRatio: window.devicePixelRatio },
+    ...snapshot,
+    link
+  };
+  downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), 'diagnostics', 'json');
+};
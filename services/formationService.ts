@@ -0,0 +1,824 @@
+import * as THREE from 'three';
+import { FormationBuffers, FormationId, FormationLabel, FormationOptions, MoonData, ParticleFormation, PlanetId, PlanetInfo } from "../types";
+import {
+  DEFAULT_VISUAL_SETTINGS,
+  EXPANSION_SCALE,
+  JUPITER_RADIUS,
+  GALAXY_RADIUS,
+  BLACK_HOLE_HORIZON_RADIUS,
+  ACCRETION_DISK_OUTER_RADIUS,
+  COMET_TAIL_LENGTH,
+  SATURN_SPIN_SPEED,
+  SATURN_EQUATORIAL_RADIUS_KM,
+  SATURN_POLAR_RADIUS_KM,
+  SATURN_AXIAL_TILT_DEG,
+  SATURN_GM,
+  SATURN_ROTATION_PERIOD_S,
+  SATURN_RINGS,
+  SATURN_MOONS,
+  ENCKE_GAP_KM,
+  SCALE_MODEL_RADIUS,
+  SCALE_MODEL_TIME_SCALE,
+  SCALE_MODEL_MOON_SIZE,
+  SCALE_MODEL_COMPRESS_FROM,
+  SCALE_MODEL_COMPRESS_POWER,
+  SCALE_MODEL_PLANET_SHARE,
+  SCALE_MODEL_MOON_SHARE,
+  SOLAR_SYSTEM_PLANETS,
+  MERCURY_RADIUS,
+  VENUS_RADIUS,
+  EARTH_RADIUS,
+  MARS_RADIUS,
+  URANUS_RADIUS,
+  URANUS_RADIUS_KM,
+  URANUS_RINGS_KM,
+  NEPTUNE_RADIUS,
+  NEPTUNE_RADIUS_KM,
+  NEPTUNE_RINGS_KM
+} from "../constants";
+
+// Small helper so generators read as "put particle i here, this colour, this size, orbiting this fast, in this group"
+const createWriter = (count: number) => {
+  const buffers: FormationBuffers = {
+    positions: new Float32Array(count * 3),
+    colors: new Float32Array(count * 3),
+    sizes: new Float32Array(count),
+    orbits: new Float32Array(count),
+    groups: new Float32Array(count)
+  };
+
+  const set = (i: number, x: number, y: number, z: number, color: THREE.Color, size: number, orbit = 0, group = 0) => {
+    const idx = i * 3;
+    buffers.positions[idx] = x;
+    buffers.positions[idx + 1] = y;
+    buffers.positions[idx + 2] = z;
+    buffers.colors[idx] = color.r;
+    buffers.colors[idx + 1] = color.g;
+    buffers.colors[idx + 2] = color.b;
+    buffers.sizes[i] = size;
+    buffers.orbits[i] = orbit;
+    buffers.groups[i] = group;
+  };
+
+  return { buffers, set };
+};
+
+// Standard normal via Box-Muller
+const gaussian = () => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Angular speed for a circular orbit at radius r, given the speed at r0
+const kepler = (speed: number, r: number, r0: number) => speed * Math.pow(r / r0, -1.5);
+
+// Evenly spread points on a unit sphere (Fibonacci spiral)
+const fibonacciSphere = (i: number, total: number) => {
+  const phi = Math.acos(-1 + (2 * i) / total);
+  const theta = Math.sqrt(total * Math.PI) * phi;
+  return { phi, theta };
+};
+
+const saturn: ParticleFormation = {
+  id: 'saturn',
+  name: 'Saturn',
+  generate: (count, { saturnRadius, ringInnerRadius, ringOuterRadius, planetShare, ringOrbitSpeed }) => {
+    const { buffers, set } = createWriter(count);
+
+    const colorSaturn1 = new THREE.Color('#EAD6B8'); // Sand
+    const colorSaturn2 = new THREE.Color('#C5A984'); // Darker Sand
+    const colorRing1 = new THREE.Color('#A89F91');   // Grey/Brown
+    const colorRing2 = new THREE.Color('#D3C1A5');   // Light Ring
+
+    // 1. Planet Sphere
+    const sphereCount = Math.floor(count * planetShare);
+    for (let i = 0; i < sphereCount; i++) {
+      const { phi, theta } = fibonacciSphere(i, sphereCount);
+      const r = saturnRadius;
+      // Oblate spheroid
+      const x = r * Math.cos(theta) * Math.sin(phi);
+      const y = (r * Math.sin(theta) * Math.sin(phi)) * 0.9;
+      const z = r * Math.cos(phi);
+
+      set(i, x, y, z, i % 2 === 0 ? colorSaturn1 : colorSaturn2, Math.random() * 0.4 + 0.2, SATURN_SPIN_SPEED);
+    }
+
+    // 2. Rings
+    for (let i = sphereCount; i < count; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      // Biased distribution for bands
+      const t = Math.random();
+      const r = Math.sqrt(t) * (ringOuterRadius - ringInnerRadius) + ringInnerRadius;
+      const y = (Math.random() - 0.5) * 0.4; // Very thin rings
+
+      const c = Math.random() > 0.4 ? colorRing1 : colorRing2;
+      set(i, Math.cos(angle) * r, y, Math.sin(angle) * r, c, Math.random() * 0.25 + 0.1, kepler(ringOrbitSpeed, r, ringInnerRadius), 1);
+    }
+
+    return buffers;
+  }
+};
+
+// Scale model units: kilometres to scene units, and true angular speeds sped up for the screen
+const kmToScene = (km: number) => (km / SATURN_EQUATORIAL_RADIUS_KM) * SCALE_MODEL_RADIUS;
+const orbitalSpeed = (km: number) => Math.sqrt(SATURN_GM / (km * km * km)) * SCALE_MODEL_TIME_SCALE;
+
+// Past the rings, moon distances are compressed so Titan still fits on screen. Order is kept,
+// and each moon's period still comes from its true distance.
+const moonOrbitRadius = (moon: MoonData) => {
+  const a = moon.semiMajorAxisKm / SATURN_EQUATORIAL_RADIUS_KM;
+  const from = SCALE_MODEL_COMPRESS_FROM;
+  return (a <= from ? a : from * Math.pow(a / from, SCALE_MODEL_COMPRESS_POWER)) * SCALE_MODEL_RADIUS;
+};
+
+const moonRadius = (moon: MoonData) => kmToScene(moon.radiusKm) * SCALE_MODEL_MOON_SIZE;
+
+// Starting phases are illustrative, spread by the golden angle so no two moons line up
+const moonPhase = (index: number) => index * Math.PI * (3 - Math.sqrt(5));
+
+const formatDays = (seconds: number) => {
+  const days = seconds / 86400;
+  return days < 10 ? `${days.toFixed(2)} days` : `${days.toFixed(1)} days`;
+};
+
+// Ring labels fan out across the near side so neighbouring names don't collide
+const ringLabel = (text: string, km: number, angleDeg: number, detail: string): FormationLabel => {
+  const r = kmToScene(km);
+  const angle = angleDeg * Math.PI / 180;
+  return { text, detail, position: [Math.cos(angle) * r, 0, Math.sin(angle) * r] };
+};
+
+const scaleModelLabels = (): FormationLabel[] => {
+  const named = (name: string) => SATURN_RINGS.filter(ring => ring.name === name);
+  const span = (name: string): [number, number] => [
+    Math.min(...named(name).map(ring => ring.innerKm)),
+    Math.max(...named(name).map(ring => ring.outerKm))
+  ];
+  const km = (value: number) => `${Math.round(value / 1000).toLocaleString()}k km`;
+  const ring = (name: string, angleDeg: number) => {
+    const [inner, outer] = span(name);
+    return ringLabel(name, (inner + outer) / 2, angleDeg, `${km(inner)} – ${km(outer)}`);
+  };
+
+  return [
+    { text: 'Saturn', detail: `Tilt ${SATURN_AXIAL_TILT_DEG}°`, position: [0, kmToScene(SATURN_POLAR_RADIUS_KM) + 1.5, 0] },
+    ring('C Ring', 125),
+    ring('B Ring', 100),
+    ring('Cassini Division', 75),
+    ring('A Ring', 55),
+    ringLabel('Encke Gap', ENCKE_GAP_KM, 35, '325 km wide'),
+    ...SATURN_MOONS.map((moon, index): FormationLabel => {
+      const r = moonOrbitRadius(moon);
+      const phase = moonPhase(index);
+      const period = 2 * Math.PI * Math.sqrt(Math.pow(moon.semiMajorAxisKm, 3) / SATURN_GM);
+      return {
+        text: moon.name,
+        detail: `${km(moon.semiMajorAxisKm)} · ${formatDays(period)}`,
+        position: [Math.cos(phase) * r, moonRadius(moon) + 1, Math.sin(phase) * r],
+        orbit: orbitalSpeed(moon.semiMajorAxisKm)
+      };
+    })
+  ];
+};
+
+// Saturn as it is: true oblateness and tilt, the main rings at their real radii with their
+// density following the optical depth, and the major moons on Keplerian orbits.
+// Shape settings don't apply; the proportions are fixed.
+const saturnScale: ParticleFormation = {
+  id: 'saturnScale',
+  name: 'Saturn to Scale',
+  axialTiltDeg: SATURN_AXIAL_TILT_DEG,
+  labels: scaleModelLabels(),
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+    const color = new THREE.Color();
+
+    // 1. Planet: poles along the spin axis, squashed to the true polar radius
+    const bands = ['#EAD6B8', '#D8BF94', '#E3CFA6', '#C9A878'].map(c => new THREE.Color(c));
+    const pole = new THREE.Color('#A3A9A6');
+    const equatorial = SCALE_MODEL_RADIUS;
+    const polar = kmToScene(SATURN_POLAR_RADIUS_KM);
+    const spin = (2 * Math.PI / SATURN_ROTATION_PERIOD_S) * SCALE_MODEL_TIME_SCALE;
+    const planetCount = Math.floor(count * SCALE_MODEL_PLANET_SHARE);
+    for (let i = 0; i < planetCount; i++) {
+      const { phi, theta } = fibonacciSphere(i, planetCount);
+      const lat = Math.PI / 2 - phi;
+      const band = Math.floor((Math.sin(lat * 9) + 1) * 2) % bands.length;
+      color.copy(bands[band]).lerp(pole, Math.max(0, (Math.abs(lat) - 1.1) / 0.47));
+      set(
+        i,
+        equatorial * Math.sin(phi) * Math.cos(theta),
+        polar * Math.cos(phi),
+        equatorial * Math.sin(phi) * Math.sin(theta),
+        color,
+        Math.random() * 0.3 + 0.15,
+        spin
+      );
+    }
+
+    // 2. Moons: each a small ball on its orbit, sized by its true radius
+    const moonCount = Math.floor(count * SCALE_MODEL_MOON_SHARE);
+    const totalRadius = SATURN_MOONS.reduce((sum, moon) => sum + moon.radiusKm, 0);
+    let next = planetCount;
+    SATURN_MOONS.forEach((moon, index) => {
+      const share = index === SATURN_MOONS.length - 1
+        ? planetCount + moonCount - next
+        : Math.floor(moonCount * moon.radiusKm / totalRadius);
+      const r = moonOrbitRadius(moon);
+      const phase = moonPhase(index);
+      const cx = Math.cos(phase) * r;
+      const cz = Math.sin(phase) * r;
+      const size = moonRadius(moon);
+      const moonColor = new THREE.Color(moon.color);
+      // Every particle circles at the moon's rate, so the ball moves as one and keeps one face to Saturn
+      const speed = orbitalSpeed(moon.semiMajorAxisKm);
+      for (let j = 0; j < share; j++, next++) {
+        const { phi, theta } = fibonacciSphere(j, share);
+        set(
+          next,
+          cx + size * Math.sin(phi) * Math.cos(theta),
+          size * Math.cos(phi),
+          cz + size * Math.sin(phi) * Math.sin(theta),
+          moonColor,
+          Math.random() * 0.2 + 0.2,
+          speed,
+          1
+        );
+      }
+    });
+
+    // 3. Rings: particles per area follow the share of light each region blocks, 1 - e^-tau,
+    // rather than tau itself, which runs past 3 in the B ring core
+    const weights = SATURN_RINGS.map(ring =>
+      (1 - Math.exp(-ring.opticalDepth)) * (ring.outerKm ** 2 - ring.innerKm ** 2));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const ringColors = SATURN_RINGS.map(ring => new THREE.Color(ring.color));
+    for (let i = next; i < count; i++) {
+      let pick = Math.random() * totalWeight;
+      let k = 0;
+      while (k < weights.length - 1 && pick > weights[k]) pick -= weights[k++];
+      const ring = SATURN_RINGS[k];
+      // Uniform over the annulus' area
+      const km = Math.sqrt(ring.innerKm ** 2 + Math.random() * (ring.outerKm ** 2 - ring.innerKm ** 2));
+      const r = kmToScene(km);
+      const angle = Math.random() * Math.PI * 2;
+      color.copy(ringColors[k]).multiplyScalar(0.85 + Math.random() * 0.3);
+      // The rings are tens of metres thick: flat at any scale we can draw
+      set(i, Math.cos(angle) * r, gaussian() * 0.02, Math.sin(angle) * r, color, Math.random() * 0.15 + 0.1, orbitalSpeed(km), 1);
+    }
+
+    return buffers;
+  }
+};
+
+const jupiter: ParticleFormation = {
+  id: 'jupiter',
+  name: 'Jupiter',
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const bands = ['#E8DCC6', '#B07F55', '#D8CAB0', '#A0643C', '#EFE4D0'].map(c => new THREE.Color(c));
+    const spot = new THREE.Color('#C1440E');
+    const spotLat = -0.38; // ~22 degrees south
+    const spotLon = 0.6;
+
+    for (let i = 0; i < count; i++) {
+      const { phi, theta } = fibonacciSphere(i, count);
+      const r = JUPITER_RADIUS;
+      // Poles along y, slightly squashed
+      const x = r * Math.sin(phi) * Math.cos(theta);
+      const y = r * Math.cos(phi) * 0.93;
+      const z = r * Math.sin(phi) * Math.sin(theta);
+
+      // Latitude bands with a little turbulence at the edges
+      const lat = Math.PI / 2 - phi;
+      const band = Math.floor((Math.sin(lat * 7 + Math.sin(theta * 3) * 0.15) + 1) * 2.5) % bands.length;
+
+      // Great Red Spot: an oval patch in the southern hemisphere
+      const dLat = (lat - spotLat) / 0.12;
+      const dLon = Math.atan2(Math.sin(theta - spotLon), Math.cos(theta - spotLon)) / 0.25;
+      const inSpot = dLat * dLat + dLon * dLon < 1;
+
+      // Fastest spinner in the solar system, so a touch quicker than Saturn.
+      // No rings, so the second hand gets the southern hemisphere.
+      set(i, x, y, z, inSpot ? spot : bands[band], Math.random() * 0.4 + 0.2, SATURN_SPIN_SPEED * 1.2, y < 0 ? 1 : 0);
+    }
+
+    return buffers;
+  }
+};
+
+const galaxy: ParticleFormation = {
+  id: 'galaxy',
+  name: 'Spiral Galaxy',
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const coreColor = new THREE.Color('#FFE8B0');
+    const innerArm = new THREE.Color('#A8C4FF');
+    const outerArm = new THREE.Color('#C89CFF');
+    const color = new THREE.Color();
+
+    const arms = 2;
+    const coreCount = Math.floor(count * 0.2);
+
+    // 1. Bulge
+    for (let i = 0; i < coreCount; i++) {
+      set(i, gaussian() * 4, gaussian() * 2.5, gaussian() * 4, coreColor, Math.random() * 0.4 + 0.25, 0.03);
+    }
+
+    // 2. Logarithmic arms, denser near the centre
+    for (let i = coreCount; i < count; i++) {
+      const t = Math.pow(Math.random(), 0.7);
+      const r = 4 + t * (GALAXY_RADIUS - 4);
+      const arm = i % arms;
+      const angle = Math.log(r) * 2.2 + (arm * Math.PI * 2) / arms;
+      const spread = 1.5 + t * 4;
+
+      const x = Math.cos(angle) * r + gaussian() * spread;
+      const z = Math.sin(angle) * r + gaussian() * spread;
+      const y = gaussian() * (1.2 - t * 0.8);
+
+      // Rigid rotation, otherwise the arms would wind up and smear out
+      color.copy(innerArm).lerp(outerArm, t);
+      set(i, x, y, z, color, Math.random() * 0.3 + 0.1, 0.03, 1);
+    }
+
+    return buffers;
+  }
+};
+
+const blackHole: ParticleFormation = {
+  id: 'blackHole',
+  name: 'Black Hole',
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const hot = new THREE.Color('#FFF4DC');
+    const warm = new THREE.Color('#FFB347');
+    const cool = new THREE.Color('#C2410C');
+    const color = new THREE.Color();
+
+    const ringCount = Math.floor(count * 0.15);
+    const haloCount = Math.floor(count * 0.2);
+    const r0 = BLACK_HOLE_HORIZON_RADIUS;
+
+    // 1. Photon ring hugging the (empty) event horizon
+    for (let i = 0; i < ringCount; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const r = r0 * 1.5 + gaussian() * 0.3;
+      set(i, Math.cos(angle) * r, (Math.random() - 0.5) * 0.3, Math.sin(angle) * r, hot, Math.random() * 0.3 + 0.2, 0.6);
+    }
+
+    // 2. Lensed far side of the disk, bent up over the horizon into a vertical halo
+    for (let i = ringCount; i < ringCount + haloCount; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const r = r0 * 1.7 + Math.abs(gaussian()) * 3;
+      color.copy(hot).lerp(warm, (r - r0 * 1.7) / 6);
+      set(i, Math.cos(angle) * r, Math.sin(angle) * r, (Math.random() - 0.5) * 0.6, color, Math.random() * 0.25 + 0.1);
+    }
+
+    // 3. Accretion disk, density falling off with radius, hotter inside
+    for (let i = ringCount + haloCount; i < count; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const t = Math.pow(Math.random(), 2);
+      const r = r0 * 2 + t * (ACCRETION_DISK_OUTER_RADIUS - r0 * 2);
+      const y = gaussian() * (0.2 + t * 0.6);
+
+      color.copy(warm).lerp(cool, t);
+      if (t < 0.1) color.lerp(hot, 1 - t * 10);
+      set(i, Math.cos(angle) * r, y, Math.sin(angle) * r, color, Math.random() * 0.25 + 0.1, kepler(0.45, r, r0 * 2), 1);
+    }
+
+    return buffers;
+  }
+};
+
+const comet: ParticleFormation = {
+  id: 'comet',
+  name: 'Comet',
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const nucleusColor = new THREE.Color('#F5F1E8');
+    const comaColor = new THREE.Color('#CFE8FF');
+    const dustColor = new THREE.Color('#F3E2B3');
+    const ionColor = new THREE.Color('#6FA8FF');
+    const color = new THREE.Color();
+
+    // Head sits off-centre so the tail fits in view
+    const headX = COMET_TAIL_LENGTH * 0.4;
+    const nucleusCount = Math.floor(count * 0.08);
+    const comaCount = Math.floor(count * 0.22);
+    const dustCount = Math.floor(count * 0.4);
+
+    for (let i = 0; i < count; i++) {
+      if (i < nucleusCount) {
+        set(i, headX + gaussian() * 0.8, gaussian() * 0.8, gaussian() * 0.8, nucleusColor, Math.random() * 0.4 + 0.3);
+      } else if (i < nucleusCount + comaCount) {
+        set(i, headX + gaussian() * 4, gaussian() * 4, gaussian() * 4, comaColor, Math.random() * 0.25 + 0.1);
+      } else if (i < nucleusCount + comaCount + dustCount) {
+        // Dust tail: broad and curving away from the orbit
+        const t = Math.pow(Math.random(), 0.8);
+        const along = t * COMET_TAIL_LENGTH;
+        const width = 1 + t * 9;
+        color.copy(dustColor).lerp(comaColor, 1 - t);
+        set(i, headX - along, t * t * 14 + gaussian() * width * 0.4, gaussian() * width, color, Math.random() * 0.25 + 0.1, 0, 1);
+      } else {
+        // Ion tail: narrow, straight, pointing directly away from the sun
+        const t = Math.random();
+        const width = 0.5 + t * 2;
+        set(i, headX - t * COMET_TAIL_LENGTH * 1.2, gaussian() * width, gaussian() * width, ionColor, Math.random() * 0.2 + 0.1, 0, 1);
+      }
+    }
+
+    return buffers;
+  }
+};
+
+// Solar system explorer. Spins keep the planets' true ratios, pinned to the classic Saturn's,
+// and tilts are real; Jupiter and Saturn reuse the formations above.
+export const getPlanet = (id: PlanetId): PlanetInfo => SOLAR_SYSTEM_PLANETS.find(planet => planet.id === id)!;
+const spinFor = (dayHours: number) => SATURN_SPIN_SPEED * getPlanet('saturn').dayHours / dayHours;
+
+// Deterministic 0-1 hash, so features land in the same place every visit
+const hash = (n: number) => {
+  const s = Math.sin(n * 12.9898) * 43758.5453;
+  return s - Math.floor(s);
+};
+
+// Smooth, cheap -1..1 field over the unit sphere for mottling, clouds and coastlines
+const swirl = (x: number, y: number, z: number) =>
+  (Math.sin(x * 3.1 + Math.sin(y * 2.3)) + Math.sin(y * 4.7 + Math.sin(z * 3.7)) + Math.sin(z * 5.3 + Math.sin(x * 4.1))) / 3;
+
+// Unit sphere point with latitude and longitude in degrees. East is -z, so the planets
+// turn west to east under a positive orbit speed.
+const spherePoint = (i: number, total: number) => {
+  const { phi, theta } = fibonacciSphere(i, total);
+  const x = Math.sin(phi) * Math.cos(theta);
+  const y = Math.cos(phi);
+  const z = Math.sin(phi) * Math.sin(theta);
+  return { x, y, z, lat: 90 - phi * 180 / Math.PI, lon: Math.atan2(-z, x) * 180 / Math.PI };
+};
+
+const randomDirection = () => {
+  const y = Math.random() * 2 - 1;
+  const angle = Math.random() * Math.PI * 2;
+  const r = Math.sqrt(1 - y * y);
+  return { x: Math.cos(angle) * r, y, z: Math.sin(angle) * r };
+};
+
+// Thin ringlets at true radii relative to the planet's, shared by Uranus and Neptune
+const writeRinglets = (
+  set: ReturnType<typeof createWriter>['set'],
+  from: number,
+  to: number,
+  ringsKm: number[],
+  weights: number[],
+  planetKm: number,
+  radius: number,
+  orbitSpeed: number,
+  color: THREE.Color
+) => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  for (let i = from; i < to; i++) {
+    let pick = Math.random() * totalWeight;
+    let k = 0;
+    while (k < weights.length - 1 && pick > weights[k]) pick -= weights[k++];
+    const r = (ringsKm[k] / planetKm) * radius + gaussian() * 0.08 * weights[k];
+    const angle = Math.random() * Math.PI * 2;
+    set(i, Math.cos(angle) * r, gaussian() * 0.03, Math.sin(angle) * r, color, Math.random() * 0.12 + 0.08, kepler(orbitSpeed, r, radius * 1.5), 1);
+  }
+};
+
+const mercury: ParticleFormation = {
+  id: 'mercury',
+  name: 'Mercury',
+  axialTiltDeg: getPlanet('mercury').axialTiltDeg,
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const rock = new THREE.Color('#A0958C');
+    const shadow = new THREE.Color('#5C544E');
+    const ejecta = new THREE.Color('#DCD4CA');
+    const color = new THREE.Color();
+
+    // Craters scattered by the hash, a few large basins among many small ones
+    const craters = Array.from({ length: 48 }, (_, k) => {
+      const y = hash(k + 1) * 2 - 1;
+      const angle = hash(k + 101) * Math.PI * 2;
+      const r = Math.sqrt(1 - y * y);
+      return { x: Math.cos(angle) * r, y, z: Math.sin(angle) * r, size: 0.05 + 0.3 * Math.pow(hash(k + 201), 3) };
+    });
+
+    const spin = spinFor(getPlanet('mercury').dayHours);
+    for (let i = 0; i < count; i++) {
+      const p = spherePoint(i, count);
+      color.copy(rock).lerp(shadow, 0.3 + 0.3 * swirl(p.x * 2, p.y * 2, p.z * 2));
+      for (const crater of craters) {
+        // Squared chord distance in crater radii, no square root in the hot loop
+        const d = (2 - 2 * (p.x * crater.x + p.y * crater.y + p.z * crater.z)) / (crater.size * crater.size);
+        if (d < 0.72) color.lerp(shadow, 0.35);
+        else if (d < 1.32) color.lerp(ejecta, 0.5);
+      }
+      set(i, p.x * MERCURY_RADIUS, p.y * MERCURY_RADIUS, p.z * MERCURY_RADIUS, color, Math.random() * 0.35 + 0.2, spin, p.y < 0 ? 1 : 0);
+    }
+
+    return buffers;
+  }
+};
+
+const venus: ParticleFormation = {
+  id: 'venus',
+  name: 'Venus',
+  // Tipped past 90°, so it turns backwards
+  axialTiltDeg: getPlanet('venus').axialTiltDeg,
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const light = new THREE.Color('#F2E4BA');
+    const mid = new THREE.Color('#D9BA7C');
+    const dark = new THREE.Color('#B08D52');
+    const color = new THREE.Color();
+
+    // The ground takes 243 days to turn, but the cloud tops we see race round in about four
+    const spin = spinFor(96);
+    for (let i = 0; i < count; i++) {
+      const p = spherePoint(i, count);
+      // Bands bending towards the equator: the sideways "Y" seen in ultraviolet
+      const chevron = 0.5 + 0.5 * Math.sin(Math.abs(p.lat) * 0.14 - Math.cos(p.lon * Math.PI / 180) * 2.5);
+      color.copy(light).lerp(mid, chevron);
+      if (swirl(p.x * 1.5, p.y * 3, p.z * 1.5) > 0.45) color.lerp(dark, 0.5);
+      set(i, p.x * VENUS_RADIUS, p.y * VENUS_RADIUS, p.z * VENUS_RADIUS, color, Math.random() * 0.4 + 0.3, spin, p.y < 0 ? 1 : 0);
+    }
+
+    return buffers;
+  }
+};
+
+// Land at 10° resolution, rows from 90°N, columns from 180°W. Coarse, but the continents read.
+const EARTH_LAND = [
+  '....................................',
+  '......##########...#...#...###......',
+  '########..#####.#.##################',
+  '..#######.###....###############.##.',
+  '......#######....################...',
+  '......#####.....#################...',
+  '......###.......################....',
+  '........##......########.##.###.....',
+  '..........####...#######....###.....',
+  '..........#####....#####.....######.',
+  '..........#####....####........###..',
+  '..........####.....####.......####..',
+  '..........###......##........#####.#',
+  '..........##....................#.#.',
+  '...........#........................',
+  '...........##.......................',
+  '####################################',
+  '####################################'
+];
+
+const isLand = (lat: number, lon: number) => {
+  const row = Math.min(17, Math.max(0, Math.floor((90 - lat) / 10)));
+  const col = Math.min(35, Math.max(0, Math.floor((lon + 180) / 10)));
+  return EARTH_LAND[row][col] === '#';
+};
+
+const earth: ParticleFormation = {
+  id: 'earth',
+  name: 'Earth',
+  axialTiltDeg: getPlanet('earth').axialTiltDeg,
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const deepOcean = new THREE.Color('#173F8A');
+    const shallowOcean = new THREE.Color('#2A6BBE');
+    const forest = new THREE.Color('#2F6B34');
+    const grass = new THREE.Color('#5E8A3C');
+    const desert = new THREE.Color('#C9A66B');
+    const tundra = new THREE.Color('#8C8A70');
+    const ice = new THREE.Color('#F1F5F9');
+    const cloud = new THREE.Color('#E9EFF6');
+    const color = new THREE.Color();
+
+    const spin = spinFor(getPlanet('earth').dayHours);
+    const surfaceCount = Math.floor(count * 0.85);
+
+    // 1. Surface. Coastlines are roughened so the 10° grid doesn't show.
+    for (let i = 0; i < surfaceCount; i++) {
+      const p = spherePoint(i, surfaceCount);
+      const lat = p.lat + swirl(p.x * 4, p.y * 4, p.z * 4) * 5;
+      const lon = p.lon + swirl(p.z * 4, p.x * 4, p.y * 4) * 6;
+      const land = isLand(lat, lon);
+      const greenland = land && lat > 60 && lon > -60 && lon < -15;
+
+      if (lat > 72 || lat < -66 || greenland) {
+        color.copy(ice);
+      } else if (land) {
+        const absLat = Math.abs(lat);
+        // Deserts along the subtropics, forests by the equator, tundra up north
+        if (absLat > 55) color.copy(tundra);
+        else if (absLat > 15 && absLat < 35 && swirl(p.x * 3, p.z * 3, p.y * 3) > -0.2) color.copy(desert);
+        else color.copy(absLat < 15 ? forest : grass);
+      } else {
+        color.copy(deepOcean).lerp(shallowOcean, 0.5 + 0.5 * swirl(p.x * 2, p.y * 2, p.z * 2));
+      }
+      set(i, p.x * EARTH_RADIUS, p.y * EARTH_RADIUS, p.z * EARTH_RADIUS, color, Math.random() * 0.3 + 0.2, spin);
+    }
+
+    // 2. Clouds, a little above the surface and drifting ahead of it, mostly in the
+    // equatorial and mid-latitude storm belts. They're the second hand's group.
+    const cloudRadius = EARTH_RADIUS * 1.03;
+    for (let i = surfaceCount; i < count; i++) {
+      let d = randomDirection();
+      for (let tries = 0; tries < 8; tries++) {
+        const lat = Math.asin(d.y) * 180 / Math.PI;
+        const belt = Math.max(Math.exp(-(lat * lat) / 60), Math.exp(-((Math.abs(lat) - 50) ** 2) / 150));
+        if (Math.random() < belt * (0.6 + 0.4 * swirl(d.x * 5, d.y * 5, d.z * 5))) break;
+        d = randomDirection();
+      }
+      set(i, d.x * cloudRadius, d.y * cloudRadius, d.z * cloudRadius, cloud, Math.random() * 0.35 + 0.2, spin * 1.15, 1);
+    }
+
+    return buffers;
+  }
+};
+
+const mars: ParticleFormation = {
+  id: 'mars',
+  name: 'Mars',
+  axialTiltDeg: getPlanet('mars').axialTiltDeg,
+  generate: (count) => {
+    const { buffers, set } = createWriter(count);
+
+    const rust = new THREE.Color('#C1623C');
+    const dust = new THREE.Color('#D98C5C');
+    const basalt = new THREE.Color('#6E3B26');
+    const canyon = new THREE.Color('#552619');
+    const cap = new THREE.Color('#F3EEE6');
+    const color = new THREE.Color();
+
+    const spin = spinFor(getPlanet('mars').dayHours);
+    for (let i = 0; i < count; i++) {
+      const p = spherePoint(i, count);
+      color.copy(rust).lerp(dust, 0.5 + 0.5 * swirl(p.x * 2, p.y * 2, p.z * 2));
+
+      // Dark basalt plains, commoner in the southern highlands
+      if (swirl(p.x * 2.5, p.y * 2.5, p.z * 2.5) > 0.35 - (p.lat < 0 ? 0.2 : 0)) color.lerp(basalt, 0.6);
+      // Valles Marineris, a 4,000 km gash just south of the equator
+      if (Math.abs(p.lat + 8) < 2.5 && p.lon > -110 && p.lon < -45) color.copy(canyon);
+      // Olympus Mons
+      const volcano = Math.hypot(p.lat - 18, p.lon + 134);
+      if (volcano < 6) color.copy(volcano < 3 ? rust : dust);
+      if (p.lat > 78 || p.lat < -82) color.copy(cap);
+
+      set(i, p.x * MARS_RADIUS, p.y * MARS_RADIUS, p.z * MARS_RADIUS, color, Math.random() * 0.3 + 0.2, spin, p.y < 0 ? 1 : 0);
+    }
+
+    return buffers;
+  }
+};
+
+const uranus: ParticleFormation = {
+  id: 'uranus',
+  name: 'Uranus',
+  // On its side, so the rings stand nearly upright
+  axialTiltDeg: getPlanet('uranus').axialTiltDeg,
+  generate: (count, { ringOrbitSpeed }) => {
+    const { buffers, set } = createWriter(count);
+
+    const haze = new THREE.Color('#B3E2E8');
+    const band = new THREE.Color('#9CD2DB');
+    const hood = new THREE.Color('#D3F1F3');
+    const ring = new THREE.Color('#7F8D94');
+    const color = new THREE.Color();
+
+    const spin = spinFor(getPlanet('uranus').dayHours);
+    const planetCount = Math.floor(count * 0.85);
+    for (let i = 0; i < planetCount; i++) {
+      const p = spherePoint(i, planetCount);
+      // Almost featureless: faint bands and a pale polar hood
+      color.copy(haze).lerp(band, 0.25 + 0.25 * Math.sin(p.lat * 0.2));
+      if (p.lat > 55) color.lerp(hood, (p.lat - 55) / 35);
+      set(i, p.x * URANUS_RADIUS, p.y * URANUS_RADIUS, p.z * URANUS_RADIUS, color, Math.random() * 0.35 + 0.2, spin);
+    }
+
+    // Nine narrow rings; epsilon, the outermost, is the widest and brightest
+    const weights = URANUS_RINGS_KM.map((_, k) => k === URANUS_RINGS_KM.length - 1 ? 4 : 1);
+    writeRinglets(set, planetCount, count, URANUS_RINGS_KM, weights, URANUS_RADIUS_KM, URANUS_RADIUS, ringOrbitSpeed, ring);
+
+    return buffers;
+  }
+};
+
+const neptune: ParticleFormation = {
+  id: 'neptune',
+  name: 'Neptune',
+  axialTiltDeg: getPlanet('neptune').axialTiltDeg,
+  generate: (count, { ringOrbitSpeed }) => {
+    const { buffers, set } = createWriter(count);
+
+    const blue = new THREE.Color('#3F67D8');
+    const band = new THREE.Color('#2F52B8');
+    const spot = new THREE.Color('#1B2A72');
+    const cirrus = new THREE.Color('#EAF2FF');
+    const ring = new THREE.Color('#6B7391');
+    const color = new THREE.Color();
+
+    const spin = spinFor(getPlanet('neptune').dayHours);
+    const planetCount = Math.floor(count * 0.95);
+    for (let i = 0; i < planetCount; i++) {
+      const p = spherePoint(i, planetCount);
+      color.copy(blue).lerp(band, 0.5 + 0.5 * Math.sin(p.lat * 0.12));
+
+      // The Great Dark Spot as Voyager 2 saw it, with bright methane clouds riding alongside
+      const dLat = (p.lat + 22) / 7;
+      const dLon = (p.lon - 30) / 16;
+      const spotDistance = dLat * dLat + dLon * dLon;
+      if (spotDistance < 1) color.copy(spot);
+      else if (spotDistance < 1.8 && p.lat < -25) color.copy(cirrus);
+      else if (Math.abs(p.lat) > 20 && Math.abs(p.lat) < 50 && swirl(p.x * 6, p.y * 2, p.z * 6) > 0.7) color.lerp(cirrus, 0.8);
+
+      set(i, p.x * NEPTUNE_RADIUS, p.y * NEPTUNE_RADIUS, p.z * NEPTUNE_RADIUS, color, Math.random() * 0.35 + 0.2, spin, p.y < 0 ? 1 : 0);
+    }
+
+    // Faint dusty rings, Adams the brighter
+    writeRinglets(set, planetCount, count, NEPTUNE_RINGS_KM, [1, 2], NEPTUNE_RADIUS_KM, NEPTUNE_RADIUS, ringOrbitSpeed, ring);
+
+    return buffers;
+  }
+};
+
+// Stops in the explorer that aren't offered in the formation picker
+const PLANET_FORMATIONS: ParticleFormation[] = [mercury, venus, earth, mars, uranus, neptune];
+
+export const FORMATIONS: ParticleFormation[] = [saturn, saturnScale, jupiter, galaxy, blackHole, comet];
+
+export const getFormation = (id: FormationId): ParticleFormation =>
+  FORMATIONS.find(f => f.id === id) ?? PLANET_FORMATIONS.find(f => f.id === id) ?? saturn;
+
+export const nextFormationId = (id: FormationId): FormationId => {
+  const index = FORMATIONS.findIndex(f => f.id === id);
+  return FORMATIONS[(index + 1) % FORMATIONS.length].id;
+};
+
+// Next or previous planet in order from the Sun, wrapping round at either end
+export const stepPlanet = (id: PlanetId, step: 1 | -1): PlanetId => {
+  const index = SOLAR_SYSTEM_PLANETS.findIndex(planet => planet.id === id);
+  return SOLAR_SYSTEM_PLANETS[(index + step + SOLAR_SYSTEM_PLANETS.length) % SOLAR_SYSTEM_PLANETS.length].id;
+};
+
+// One shuffle per count, shared by every formation and the nebula. Any prefix of the
+// particles is then an even sample of the shape (so quality tiers can draw fewer), and
+// a particle keeps the same role, e.g. planet core, in all of them.
+const orders = new Map<number, Uint32Array>();
+const prefixOrder = (count: number) => {
+  let order = orders.get(count);
+  if (!order) {
+    order = new Uint32Array(count).map((_, i) => i);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    orders.set(count, order);
+  }
+  return order;
+};
+
+const reorder = (source: Float32Array, order: Uint32Array, stride: number) => {
+  const target = new Float32Array(source.length);
+  for (let i = 0; i < order.length; i++) {
+    for (let k = 0; k < stride; k++) target[i * stride + k] = source[order[i] * stride + k];
+  }
+  return target;
+};
+
+export const generateFormation = (
+  id: FormationId,
+  count: number,
+  options: FormationOptions = DEFAULT_VISUAL_SETTINGS
+): FormationBuffers => {
+  const buffers = getFormation(id).generate(count, options);
+  const order = prefixOrder(count);
+  return {
+    positions: reorder(buffers.positions, order, 3),
+    colors: reorder(buffers.colors, order, 3),
+    sizes: reorder(buffers.sizes, order, 1),
+    orbits: reorder(buffers.orbits, order, 1),
+    groups: reorder(buffers.groups, order, 1)
+  };
+};
+
+// Dispersed "nebula" targets. The first third spreads less, like the old planet core did.
+export const generateNebulaPositions = (count: number, scale: number = EXPANSION_SCALE): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const coreCount = Math.floor(count * 0.35);
+  for (let i = 0; i < count; i++) {
+    const spread = scale * (i < coreCount ? 2.5 : 4);
+    positions[i * 3] = (Math.random() - 0.5) * spread;
+    positions[i * 3 + 1] = (Math.random() - 0.5) * spread;
+    positions[i * 3 + 2] = (Math.random() - 0.5) * spread;
+  }
+  return reorder(positions, prefixOrder(count), 3);
+};
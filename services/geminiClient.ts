@@ -0,0 +1,33 @@
+import { GoogleGenAI } from "@google/genai";
+
+export interface GeminiClientOptions {
+  apiKey?: string;
+  baseUrl?: string;   // Point at a local stand-in server instead of Google
+  timeoutMs?: number;
+}
+
+// Only the part of the SDK we actually use, so tests/tools can hand in a fake
+export type GeminiClient = Pick<GoogleGenAI['models'], 'generateContent'>;
+
+export const createGeminiClient = ({ apiKey, baseUrl, timeoutMs }: GeminiClientOptions = {}): GeminiClient => {
+  const ai = new GoogleGenAI({
+    apiKey: apiKey ?? process.env.API_KEY,
+    httpOptions: {
+      baseUrl: baseUrl ?? process.env.GEMINI_BASE_URL,
+      timeout: timeoutMs
+    }
+  });
+  return ai.models;
+};
+
+// Created lazily so importing a service never needs a key
+let defaultClient: GeminiClient | null = null;
+
+export const setGeminiClient = (client: GeminiClient | null) => {
+  defaultClient = client;
+};
+
+export const getGeminiClient = (): GeminiClient => {
+  if (!defaultClient) defaultClient = createGeminiClient();
+  return defaultClient;
+};
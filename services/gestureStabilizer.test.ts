@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiVisionResponse, GestureAction, GestureBindings, GestureState } from '../types';
+import { DEFAULT_GESTURE_BINDINGS } from '../constants';
+import { createGestureStabilizer, gesturesToDispatch } from './gestureStabilizer';
+import { createReplayRecognizer, parseSession } from './sessionService';
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ==';
+
+const open = (confidence = 0.9, x?: number): GeminiVisionResponse =>
+  ({ gesture: 'OPEN', confidence, openness: 0.9, ...(x !== undefined && { position: { x, y: 0.5 } }) });
+const closed: GeminiVisionResponse = { gesture: 'CLOSED', confidence: 0.9, openness: 0.1 };
+const peace: GeminiVisionResponse = { gesture: 'PEACE', confidence: 0.85 };
+
+// A fist, a slow reveal with one blurry frame, a swipe, a peace sign held through the
+// cooldown after the swipe, then the fist again.
+// Frames are 200ms apart, as the live loop samples; two are stored out of order, as responses can land.
+const RESPONSES: GeminiVisionResponse[] = [
+  closed, closed, closed,
+  open(), open(), open(0.3), open(), open(),
+  open(0.9, 0.8), open(0.9, 0.6), open(0.9, 0.4),
+  open(), open(), open(), open(), open(),
+  peace, peace, peace,
+  closed, closed, closed, closed
+];
+
+const recordedSession = () => {
+  const frames = RESPONSES.map((response, i) => ({ t: i * 200, image: IMAGE, response }));
+  [frames[3], frames[4]] = [frames[4], frames[3]];
+  return JSON.stringify({ version: 1, backend: 'gemini', recordedAt: '2026-01-01T00:00:00.000Z', frames });
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['performance'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('replaying a recorded session through the stabilizer', () => {
+  it('turns the recorded responses into steady states and one-shot events', async () => {
+    const session = parseSession(recordedSession());
+    const recognizer = createReplayRecognizer(session);
+    const stabilizer = createGestureStabilizer();
+    await recognizer.init();
+
+    const transitions: Array<[number, GestureState | null]> = [];
+    const events: Array<[number, GestureState]> = [];
+    let previous: GestureState | null = null;
+
+    // Same lockstep as the replay loop: wait for the frame's time, then classify and stabilize
+    for (const frame of session.frames) {
+      vi.advanceTimersByTime(frame.t - performance.now());
+      const ticket = stabilizer.begin();
+      const outcome = await recognizer.classify(null as unknown as HTMLCanvasElement);
+      if (outcome.ok === false) throw new Error(outcome.error.message);
+
+      const result = stabilizer.accept(ticket, outcome.response);
+      expect(result).not.toBeNull();
+      if (result.state !== previous) transitions.push([frame.t, result.state]);
+      if (result.event) events.push([frame.t, result.event]);
+      previous = result.state;
+    }
+
+    expect(transitions).toEqual([
+      [400, GestureState.CLOSED],
+      [1200, GestureState.OPEN],
+      [4400, GestureState.CLOSED]
+    ]);
+    expect(events).toEqual([
+      [2000, GestureState.SWIPE_RIGHT],
+      [3600, GestureState.PEACE] // Held back by the cooldown, not dropped
+    ]);
+  });
+
+  it('drops a response that lands after a newer frame was applied', async () => {
+    const session = parseSession(recordedSession());
+    const recognizer = createReplayRecognizer(session);
+    const stabilizer = createGestureStabilizer();
+    await recognizer.init();
+
+    const older = stabilizer.begin();
+    const newer = stabilizer.begin();
+    const first = await recognizer.classify(null as unknown as HTMLCanvasElement);
+    const second = await recognizer.classify(null as unknown as HTMLCanvasElement);
+
+    expect(second.ok && stabilizer.accept(newer, second.response)).not.toBeNull();
+    expect(first.ok && stabilizer.accept(older, first.response)).toBeNull();
+  });
+});
+
+describe('gesturesToDispatch', () => {
+  it('runs a held hand state\'s action once, not on every frame', () => {
+    const bindings: GestureBindings = { ...DEFAULT_GESTURE_BINDINGS, [GestureState.OPEN]: 'toggleInfo' };
+    const stabilizer = createGestureStabilizer();
+    const actions: GestureAction[] = [];
+
+    // Three seconds of an open hand, sampled every 200ms
+    for (let i = 0; i < 15; i++) {
+      vi.advanceTimersByTime(200);
+      const result = stabilizer.accept(stabilizer.begin(), open());
+      for (const gesture of gesturesToDispatch(result)) actions.push(bindings[gesture]);
+    }
+
+    expect(actions).toEqual(['toggleInfo']);
+  });
+
+  it('passes events through while the state holds', () => {
+    const stabilizer = createGestureStabilizer();
+    const dispatched = [closed, closed, closed, peace, peace, closed].map(response => {
+      vi.advanceTimersByTime(200);
+      return gesturesToDispatch(stabilizer.accept(stabilizer.begin(), response));
+    });
+
+    expect(dispatched).toEqual([[], [], [GestureState.CLOSED], [], [GestureState.PEACE], []]);
+  });
+});
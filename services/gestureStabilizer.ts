@@ -0,0 +1,178 @@
+import { FrameGesture, GeminiVisionResponse, GestureState, HandBox, HandPosition } from "../types";
+import {
+  GESTURE_MIN_CONFIDENCE,
+  GESTURE_VOTE_WINDOW,
+  GESTURE_ENTER_OPEN_RATIO,
+  GESTURE_EXIT_OPEN_RATIO,
+  GESTURE_MAX_RESPONSE_AGE_MS,
+  GESTURE_POSE_FRAMES,
+  GESTURE_POSE_COOLDOWN_MS,
+  SWIPE_MIN_DISTANCE,
+  SWIPE_MAX_FRAMES
+} from "../constants";
+
+export interface StabilizerOptions {
+  minConfidence: number;   // Responses below this don't vote
+  windowSize: number;      // Number of recent frames that vote
+  enterOpenRatio: number;  // Share of OPEN votes needed to switch CLOSED -> OPEN
+  exitOpenRatio: number;   // Share of OPEN votes at or below which we switch OPEN -> CLOSED
+  maxResponseAgeMs: number; // Responses slower than this are dropped
+  poseFrames: number;      // Consecutive frames a pose must be held to fire
+  eventCooldownMs: number; // Minimum gap between pose/swipe events
+  swipeMinDistance: number; // Horizontal travel, as a share of the frame width
+  swipeMaxFrames: number;  // Travel must happen within this many frames
+}
+
+// Issued per frame, handed back with the recognizer response
+export interface FrameTicket {
+  seq: number;
+  capturedAt: number;
+}
+
+export interface StabilizedGesture {
+  state: GestureState | null; // null until enough votes have been collected
+  changed: boolean;           // state differs from the one before this frame
+  event?: GestureState;       // One-shot pose or swipe, fired once
+  openness?: number;
+  position?: HandPosition;    // Only set while a hand is confidently seen
+  boundingBox?: HandBox;
+}
+
+export interface GestureStabilizer {
+  begin(): FrameTicket;
+  // Returns null when the response is stale and must be ignored
+  accept(ticket: FrameTicket, response: GeminiVisionResponse): StabilizedGesture | null;
+  reset(): void;
+}
+
+const DEFAULT_OPTIONS: StabilizerOptions = {
+  minConfidence: GESTURE_MIN_CONFIDENCE,
+  windowSize: GESTURE_VOTE_WINDOW,
+  enterOpenRatio: GESTURE_ENTER_OPEN_RATIO,
+  exitOpenRatio: GESTURE_EXIT_OPEN_RATIO,
+  maxResponseAgeMs: GESTURE_MAX_RESPONSE_AGE_MS,
+  poseFrames: GESTURE_POSE_FRAMES,
+  eventCooldownMs: GESTURE_POSE_COOLDOWN_MS,
+  swipeMinDistance: SWIPE_MIN_DISTANCE,
+  swipeMaxFrames: SWIPE_MAX_FRAMES
+};
+
+const POSES: Partial<Record<FrameGesture, GestureState>> = {
+  POINT: GestureState.POINT,
+  PINCH: GestureState.PINCH,
+  THUMBS_UP: GestureState.THUMBS_UP,
+  PEACE: GestureState.PEACE
+};
+
+// Sits between the recognizer and the app:
+// - drops responses that arrive after a newer frame's response (latency jitter)
+// - ignores low-confidence classifications
+// - majority vote over a sliding window with separate enter/exit thresholds (hysteresis)
+// - poses held for a few frames and horizontal swipes become one-shot events
+export const createGestureStabilizer = (overrides: Partial<StabilizerOptions> = {}): GestureStabilizer => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const minVotes = Math.ceil(options.windowSize / 2);
+
+  let nextSeq = 0;
+  let lastAppliedSeq = -1;
+  let votes: Array<'OPEN' | 'CLOSED'> = [];
+  let state: GestureState | null = null;
+  let poseRun: { gesture: FrameGesture; count: number; fired: boolean } | null = null;
+  let track: number[] = []; // Recent hand x positions, oldest first
+  let lastEventAt = -Infinity;
+
+  const detectEvent = (response: GeminiVisionResponse, now: number): GestureState | undefined => {
+    if (now - lastEventAt < options.eventCooldownMs) return undefined;
+
+    const pose = POSES[response.gesture];
+    // Fire once per hold, not every frame the pose stays up
+    if (pose && poseRun && !poseRun.fired && poseRun.count >= options.poseFrames) {
+      poseRun.fired = true;
+      return pose;
+    }
+
+    if (track.length >= 2) {
+      // Raw frame x grows to the camera's right, which is the user's left
+      const dx = track[track.length - 1] - track[0];
+      if (Math.abs(dx) >= options.swipeMinDistance) {
+        track = [];
+        return dx < 0 ? GestureState.SWIPE_RIGHT : GestureState.SWIPE_LEFT;
+      }
+    }
+    return undefined;
+  };
+
+  const decide = (): GestureState | null => {
+    if (votes.length < minVotes) return state;
+
+    const openShare = votes.filter(v => v === 'OPEN').length / votes.length;
+    if (state !== GestureState.OPEN && openShare >= options.enterOpenRatio) return GestureState.OPEN;
+    if (state !== GestureState.CLOSED && openShare <= options.exitOpenRatio) return GestureState.CLOSED;
+    return state;
+  };
+
+  return {
+    begin: () => ({ seq: nextSeq++, capturedAt: performance.now() }),
+
+    accept: (ticket, response) => {
+      // A newer frame already landed, or this one took too long to be meaningful
+      if (ticket.seq <= lastAppliedSeq) return null;
+      if (performance.now() - ticket.capturedAt > options.maxResponseAgeMs) return null;
+      lastAppliedSeq = ticket.seq;
+
+      const confident = response.confidence >= options.minConfidence;
+      const seen = confident && response.gesture !== 'NONE';
+
+      if (seen && (response.gesture === 'OPEN' || response.gesture === 'CLOSED')) {
+        votes.push(response.gesture);
+        if (votes.length > options.windowSize) votes.shift();
+      }
+
+      if (!seen) {
+        poseRun = null;
+      } else if (poseRun?.gesture === response.gesture) {
+        poseRun.count++;
+      } else {
+        poseRun = { gesture: response.gesture, count: 1, fired: false };
+      }
+
+      if (seen && response.position) {
+        track.push(response.position.x);
+        if (track.length > options.swipeMaxFrames) track.shift();
+      } else {
+        track = [];
+      }
+
+      const now = performance.now();
+      const event = seen ? detectEvent(response, now) : undefined;
+      if (event) lastEventAt = now;
+
+      const previous = state;
+      state = decide();
+      return {
+        state,
+        changed: state !== previous,
+        event,
+        openness: confident ? response.openness : undefined,
+        position: seen ? response.position : undefined,
+        boundingBox: seen ? response.boundingBox : undefined
+      };
+    },
+
+    reset: () => {
+      // Keep counting seq upwards so in-flight responses from before the reset stay stale
+      lastAppliedSeq = nextSeq - 1;
+      votes = [];
+      state = null;
+      poseRun = null;
+      track = [];
+    }
+  };
+};
+
+// What the app acts on: the held hand state once, when it changes, then any one-shot event.
+// The state is reported on every frame, and bound actions mostly aren't safe to repeat.
+export const gesturesToDispatch = (result: StabilizedGesture): GestureState[] => [
+  ...(result.state && result.changed ? [result.state] : []),
+  ...(result.event ? [result.event] : [])
+];
@@ -0,0 +1,84 @@
+import { GestureState, HandObservation, HandPosition, HandSlot, TrackedHand } from "../types";
+import { HAND_TRACK_MAX_JUMP, HAND_TRACK_TTL_MS } from "../constants";
+import { GestureStabilizer, createGestureStabilizer } from "./gestureStabilizer";
+
+interface Track extends TrackedHand {
+  stabilizer: GestureStabilizer; // Each hand votes on its own open/closed state
+  seenAt: number;
+}
+
+export interface HandTracker {
+  // Match this frame's hands to the ones already followed; returns every hand still in view
+  update(hands: HandObservation[], now?: number): TrackedHand[];
+  reset(): void;
+}
+
+const distance = (a: HandPosition, b: HandPosition) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Recognizers can't tell hands apart between frames, so identity comes from position:
+// each hand is matched to the nearest one from the last frame, closest pairs first.
+// A new hand takes the slot for the side it appeared on, or whichever slot is free.
+// Two slots, so a third person crowding in is ignored until someone leaves.
+export const createHandTracker = (): HandTracker => {
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  const apply = (track: Track, hand: HandObservation, now: number) => {
+    const result = track.stabilizer.accept(track.stabilizer.begin(), hand);
+    if (result?.state === GestureState.OPEN || result?.state === GestureState.CLOSED) track.state = result.state;
+    if (typeof result?.openness === 'number') track.openness = result.openness;
+    track.position = hand.position!;
+    track.seenAt = now;
+  };
+
+  return {
+    update: (hands, now = performance.now()) => {
+      tracks = tracks.filter(track => now - track.seenAt <= HAND_TRACK_TTL_MS);
+      const candidates = hands.filter(hand => hand.gesture !== 'NONE' && hand.position);
+
+      const pairs: { track: Track; hand: number; d: number }[] = [];
+      for (const track of tracks) {
+        candidates.forEach((hand, index) => {
+          const d = distance(track.position, hand.position!);
+          if (d <= HAND_TRACK_MAX_JUMP) pairs.push({ track, hand: index, d });
+        });
+      }
+      pairs.sort((a, b) => a.d - b.d);
+
+      const matchedTracks = new Set<Track>();
+      const matchedHands = new Set<number>();
+      for (const { track, hand } of pairs) {
+        if (matchedTracks.has(track) || matchedHands.has(hand)) continue;
+        matchedTracks.add(track);
+        matchedHands.add(hand);
+        apply(track, candidates[hand], now);
+      }
+
+      candidates.forEach((hand, index) => {
+        if (matchedHands.has(index)) return;
+        // The raw frame isn't mirrored: its right half is the user's left
+        const preferred: HandSlot = hand.position!.x > 0.5 ? 0 : 1;
+        const taken = new Set(tracks.map(track => track.slot));
+        const slot = taken.has(preferred) ? (1 - preferred) as HandSlot : preferred;
+        if (taken.has(slot)) return; // Both slots are followed; anyone else is watching
+
+        const track: Track = {
+          id: nextId++,
+          slot,
+          state: GestureState.CLOSED,
+          openness: 0,
+          position: hand.position!,
+          stabilizer: createGestureStabilizer(),
+          seenAt: now
+        };
+        tracks.push(track);
+        apply(track, hand, now);
+      });
+
+      return tracks.map(({ id, slot, state, openness, position }) => ({ id, slot, state, openness, position }));
+    },
+    reset: () => {
+      tracks = [];
+    }
+  };
+};
@@ -0,0 +1,188 @@
+import { LinkHealth, LinkStatus, TokenUsage, VisionError } from "../types";
+import {
+  BUDGET_QUERY_PARAM,
+  LINK_BACKOFF_BASE_MS,
+  LINK_BACKOFF_MAX_MS,
+  LINK_BREAKER_COOLDOWN_MS,
+  LINK_BREAKER_THRESHOLD,
+  LINK_QUOTA_BACKOFF_MS,
+  VISION_PRICE_PER_MILLION,
+  VISION_TOKEN_ESTIMATE,
+  VISION_USAGE_STORAGE_KEY
+} from "../constants";
+
+interface StoredUsage {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+// ?budget= wins over the SESSION_TOKEN_BUDGET build setting; anything not positive means no cap
+export const resolveTokenBudget = (): number | null => {
+  const requested = Number(new URLSearchParams(window.location.search).get(BUDGET_QUERY_PARAM));
+  if (requested > 0) return requested;
+  const configured = Number(process.env.SESSION_TOKEN_BUDGET);
+  return configured > 0 ? configured : null;
+};
+
+const loadUsage = (): StoredUsage => {
+  try {
+    const usage = JSON.parse(sessionStorage.getItem(VISION_USAGE_STORAGE_KEY) ?? 'null') as StoredUsage | null;
+    if (usage && [usage.requests, usage.promptTokens, usage.outputTokens].every(Number.isFinite)) return usage;
+  } catch {
+    // Start from zero
+  }
+  return { requests: 0, promptTokens: 0, outputTokens: 0 };
+};
+
+const saveUsage = (usage: StoredUsage) => {
+  try {
+    sessionStorage.setItem(VISION_USAGE_STORAGE_KEY, JSON.stringify(usage));
+  } catch {
+    // Accounting still works for this page, it just won't survive a reload
+  }
+};
+
+export interface LinkMonitor {
+  setCloud(cloud: boolean): void; // On-device backends have no link to watch
+  canSend(now?: number): boolean; // False while backing off, tripped, out of budget or rejected
+  begin(): void; // A request is going out
+  succeed(usage?: TokenUsage): void;
+  fail(error: VisionError, now?: number): void;
+  retry(): void; // Forget the failures and try again on the next tick
+  health(): LinkHealth;
+  subscribe(listener: () => void): () => void;
+}
+
+// Watches the cloud vision link: exponential backoff with jitter on failures, a circuit
+// breaker after repeated ones, and token accounting against an optional session budget.
+export const createLinkMonitor = (budgetTokens: number | null = resolveTokenBudget()): LinkMonitor => {
+  const usage = loadUsage();
+  const listeners = new Set<() => void>();
+  let cloud = false;
+  let succeeded = false;
+  let inFlight = 0;
+  let failures = 0;
+  let lastError: VisionError | null = null;
+  let retryAt: number | null = null;
+  let tripped = false;
+  let wentOffline = false;
+  let snapshot: LinkHealth;
+
+  const overBudget = () => budgetTokens !== null && usage.promptTokens + usage.outputTokens >= budgetTokens;
+
+  const status = (): LinkStatus => {
+    if (!cloud) return 'local';
+    if (overBudget()) return 'budget';
+    if (failures === 0) return succeeded ? 'connected' : 'connecting';
+    if (lastError?.kind === 'auth') return 'auth';
+    if (tripped) return 'open';
+    if (lastError?.kind === 'quota') return 'quota';
+    if (lastError?.kind === 'network' && !navigator.onLine) return 'offline';
+    return 'retrying';
+  };
+
+  const update = () => {
+    snapshot = {
+      status: status(),
+      requests: usage.requests,
+      failures,
+      promptTokens: usage.promptTokens,
+      outputTokens: usage.outputTokens,
+      estimatedCost: (usage.promptTokens * VISION_PRICE_PER_MILLION.prompt + usage.outputTokens * VISION_PRICE_PER_MILLION.output) / 1e6,
+      budgetTokens,
+      lastError,
+      retryAt
+    };
+    listeners.forEach(listener => listener());
+  };
+  update();
+
+  const addTokens = (tokens: TokenUsage) => {
+    usage.promptTokens += tokens.promptTokens;
+    usage.outputTokens += tokens.outputTokens;
+    saveUsage(usage);
+  };
+
+  return {
+    setCloud: (value) => {
+      cloud = value;
+      update();
+    },
+    canSend: (now = performance.now()) => {
+      if (!cloud) return true;
+      if (overBudget() || lastError?.kind === 'auth' && failures > 0) return false;
+      if (!navigator.onLine) {
+        wentOffline = true;
+        return false;
+      }
+      // Back online: probe straight away instead of sitting out the backoff
+      if (wentOffline) {
+        wentOffline = false;
+        retryAt = now;
+      }
+      if (failures === 0) return true;
+      // Only one probe at a time while the link is unhealthy
+      return inFlight === 0 && retryAt !== null && now >= retryAt;
+    },
+    begin: () => {
+      if (!cloud) return;
+      inFlight++;
+      usage.requests++;
+      saveUsage(usage);
+      update();
+    },
+    succeed: (tokens) => {
+      if (!cloud) return;
+      inFlight = Math.max(0, inFlight - 1);
+      addTokens(tokens ?? { promptTokens: VISION_TOKEN_ESTIMATE.prompt, outputTokens: VISION_TOKEN_ESTIMATE.output, estimated: true });
+      succeeded = true;
+      failures = 0;
+      tripped = false;
+      lastError = null;
+      retryAt = null;
+      update();
+    },
+    fail: (error, now = performance.now()) => {
+      if (!cloud) return;
+      inFlight = Math.max(0, inFlight - 1);
+      lastError = error;
+
+      // The service answered, just not with usable JSON: the link itself is fine, but it was billed
+      if (error.kind === 'parse') {
+        addTokens({ promptTokens: VISION_TOKEN_ESTIMATE.prompt, outputTokens: VISION_TOKEN_ESTIMATE.output, estimated: true });
+        succeeded = true;
+        failures = 0;
+        update();
+        return;
+      }
+
+      failures++;
+      if (error.kind === 'auth') {
+        // Retrying won't fix a bad key; wait for someone to press retry
+        retryAt = null;
+      } else if (failures >= LINK_BREAKER_THRESHOLD) {
+        tripped = true;
+        retryAt = now + Math.max(LINK_BREAKER_COOLDOWN_MS, error.retryAfterMs ?? 0);
+      } else if (error.kind === 'quota') {
+        retryAt = now + (error.retryAfterMs ?? LINK_QUOTA_BACKOFF_MS);
+      } else {
+        const backoff = Math.min(LINK_BACKOFF_MAX_MS, LINK_BACKOFF_BASE_MS * 2 ** (failures - 1));
+        retryAt = now + backoff * (0.75 + Math.random() * 0.5);
+      }
+      update();
+    },
+    retry: () => {
+      failures = 0;
+      tripped = false;
+      retryAt = null;
+      if (lastError?.kind === 'auth') lastError = null;
+      update();
+    },
+    health: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { classifyPixels } from './localVisionService';
+
+// Matches the 64×48 analysis resolution
+const WIDTH = 64;
+const HEIGHT = 48;
+const SKIN = [224, 172, 140];
+const WALL = [40, 60, 90];
+
+// Paints filled skin ellipses (sample pixel coords) on a plain background
+const frame = (...ellipses: Array<{ cx: number; cy: number; rx: number; ry: number }>) => {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const inside = ellipses.some(({ cx, cy, rx, ry }) => ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1);
+      pixels.set([...(inside ? SKIN : WALL), 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+const FACE = { cx: 32, cy: 16, rx: 8, ry: 11 };
+const FIST = { cx: 52, cy: 34, rx: 6, ry: 6 };
+
+describe('classifyPixels', () => {
+  it('sees a fist as a closed hand', () => {
+    const result = classifyPixels(frame(FIST));
+    expect(result.gesture).toBe('CLOSED');
+    expect(result.hands).toHaveLength(1);
+  });
+
+  it("doesn't mistake a face for a hand", () => {
+    expect(classifyPixels(frame(FACE)).gesture).toBe('NONE');
+  });
+
+  it('keeps the hand, not the bigger face, when both are in view', () => {
+    const result = classifyPixels(frame(FACE, FIST));
+    expect(result.hands).toHaveLength(1);
+    expect(result.position.x).toBeGreaterThan(0.75);
+  });
+
+  it('still takes a hand held up with its arm reaching the bottom edge', () => {
+    const result = classifyPixels(frame({ cx: 32, cy: 30, rx: 7, ry: 20 }));
+    expect(result.gesture).not.toBe('NONE');
+  });
+});
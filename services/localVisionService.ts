@@ -0,0 +1,267 @@
+import { GeminiVisionResponse, GestureRecognizer, HandBox, HandObservation, LocalCalibration } from "../types";
+import { MAX_HANDS } from "../constants";
+
+// Analysis resolution. Small enough to run every tick on a kiosk CPU.
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+
+// A skin blob must cover at least this share of the frame to count as a hand
+const MIN_BLOB_RATIO = 0.02;
+
+// Faces are skin too. One reads as a big, solid, upright oval in the upper part of the frame,
+// clear of the bottom edge that an arm comes up from. A hand is rarely all of those at once,
+// and a fist skipped by mistake only costs a frame.
+const FACE_MIN_SOLIDITY = 0.8;
+const FACE_ASPECT = [1.2, 1.8]; // Height over width
+const FACE_MIN_HEIGHT = 0.25; // Share of the frame height
+const FACE_MAX_CENTER_Y = 0.6; // Share of the frame height, from the top
+const FACE_MAX_BOTTOM = 0.95; // Lowest edge, as a share of the frame height
+
+// Classic YCbCr skin range (Chai & Ngan), cheap and tolerant of brightness changes.
+// Solidity = blob area / convex hull area.
+// A fist is a compact blob (high solidity), spread fingers leave gaps (low solidity).
+// Calibration swaps these for values fitted to one person and room.
+export const DEFAULT_LOCAL_CALIBRATION: LocalCalibration = {
+  cb: [77, 127],
+  cr: [133, 173],
+  openSolidity: 0.72,
+  fistSolidity: 0.9,
+  spreadSolidity: 0.5
+};
+
+const SOLIDITY_MARGIN = 0.15; // Distance from threshold that maps to full confidence
+
+const NONE_RESPONSE: GeminiVisionResponse = { gesture: 'NONE', confidence: 0 };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const chromaB = (r: number, g: number, b: number) => 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+const chromaR = (r: number, g: number, b: number) => 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+
+const buildSkinMask = (pixels: Uint8ClampedArray, { cb, cr }: LocalCalibration): Uint8Array => {
+  const mask = new Uint8Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+  for (let i = 0; i < mask.length; i++) {
+    const p = i * 4;
+    const b = chromaB(pixels[p], pixels[p + 1], pixels[p + 2]);
+    const r = chromaR(pixels[p], pixels[p + 1], pixels[p + 2]);
+    mask[i] = b >= cb[0] && b <= cb[1] && r >= cr[0] && r <= cr[1] ? 1 : 0;
+  }
+  return mask;
+};
+
+// Flood fill every component, biggest first
+const skinBlobs = (mask: Uint8Array): Point[][] => {
+  const visited = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  const blobs: Point[][] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    const blob: Point[] = [];
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % SAMPLE_WIDTH;
+      const y = (i - x) / SAMPLE_WIDTH;
+      blob.push({ x, y });
+
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < SAMPLE_WIDTH - 1 ? i + 1 : -1,
+        y > 0 ? i - SAMPLE_WIDTH : -1,
+        y < SAMPLE_HEIGHT - 1 ? i + SAMPLE_WIDTH : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    blobs.push(blob);
+  }
+
+  return blobs.sort((a, b) => b.length - a.length);
+};
+
+const cross = (o: Point, a: Point, b: Point) =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: Point[] = [];
+  const upper: Point[] = [];
+
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+};
+
+const polygonArea = (polygon: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+const solidityOf = (blob: Point[]): number | null => {
+  const hullArea = polygonArea(convexHull(blob));
+  return hullArea === 0 ? null : blob.length / hullArea;
+};
+
+// Blob centroid and extent in frame coords (0-1), used for swipes and steering
+const placeBlob = (blob: Point[]): { position: { x: number; y: number }; boundingBox: HandBox } => {
+  let sumX = 0;
+  let sumY = 0;
+  let minX = SAMPLE_WIDTH;
+  let minY = SAMPLE_HEIGHT;
+  let maxX = 0;
+  let maxY = 0;
+  for (const p of blob) {
+    sumX += p.x;
+    sumY += p.y;
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+
+  return {
+    position: {
+      x: (sumX / blob.length + 0.5) / SAMPLE_WIDTH,
+      y: (sumY / blob.length + 0.5) / SAMPLE_HEIGHT
+    },
+    boundingBox: {
+      x: minX / SAMPLE_WIDTH,
+      y: minY / SAMPLE_HEIGHT,
+      width: (maxX - minX + 1) / SAMPLE_WIDTH,
+      height: (maxY - minY + 1) / SAMPLE_HEIGHT
+    }
+  };
+};
+
+const looksLikeFace = (blob: Point[]): boolean => {
+  const solidity = solidityOf(blob);
+  if (solidity === null || solidity < FACE_MIN_SOLIDITY) return false;
+  const { position, boundingBox } = placeBlob(blob);
+  // In sample pixels, which are square
+  const aspect = (boundingBox.height * SAMPLE_HEIGHT) / (boundingBox.width * SAMPLE_WIDTH);
+  return aspect >= FACE_ASPECT[0] && aspect <= FACE_ASPECT[1]
+    && boundingBox.height >= FACE_MIN_HEIGHT
+    && position.y <= FACE_MAX_CENTER_Y
+    && boundingBox.y + boundingBox.height <= FACE_MAX_BOTTOM;
+};
+
+const describeBlob = (blob: Point[], calibration: LocalCalibration): HandObservation | null => {
+  const solidity = solidityOf(blob);
+  if (solidity === null) return null;
+
+  const { openSolidity, fistSolidity, spreadSolidity } = calibration;
+  const confidence = Math.min(1, Math.abs(solidity - openSolidity) / SOLIDITY_MARGIN);
+  const openness = (fistSolidity - solidity) / (fistSolidity - spreadSolidity);
+
+  return {
+    gesture: solidity < openSolidity ? 'OPEN' : 'CLOSED',
+    confidence,
+    openness: Math.min(1, Math.max(0, openness)),
+    ...placeBlob(blob)
+  };
+};
+
+const handBlobs = (pixels: Uint8ClampedArray, calibration: LocalCalibration): Point[][] => {
+  const minSize = SAMPLE_WIDTH * SAMPLE_HEIGHT * MIN_BLOB_RATIO;
+  return skinBlobs(buildSkinMask(pixels, calibration)).filter(blob => blob.length >= minSize && !looksLikeFace(blob));
+};
+
+// Every big enough skin blob that isn't a face is a hand; the biggest is the primary one
+export const classifyPixels = (
+  pixels: Uint8ClampedArray,
+  calibration: LocalCalibration = DEFAULT_LOCAL_CALIBRATION
+): GeminiVisionResponse => {
+  const hands = handBlobs(pixels, calibration)
+    .slice(0, MAX_HANDS)
+    .map(blob => describeBlob(blob, calibration))
+    .filter((hand): hand is HandObservation => hand !== null);
+  return hands.length > 0 ? { ...hands[0], hands } : NONE_RESPONSE;
+};
+
+// Solidity of the biggest hand blob, or null when there isn't one. Calibration fits thresholds to these.
+export const measureSolidity = (pixels: Uint8ClampedArray, calibration: LocalCalibration): number | null => {
+  const [blob] = handBlobs(pixels, calibration);
+  return blob ? solidityOf(blob) : null;
+};
+
+// Median skin chroma inside a region (frame coords, 0-1) where the hand is known to be
+export const measureChroma = (pixels: Uint8ClampedArray, region: HandBox): { cb: number; cr: number } => {
+  const cbs: number[] = [];
+  const crs: number[] = [];
+  const x0 = Math.floor(region.x * SAMPLE_WIDTH);
+  const y0 = Math.floor(region.y * SAMPLE_HEIGHT);
+  const x1 = Math.ceil((region.x + region.width) * SAMPLE_WIDTH);
+  const y1 = Math.ceil((region.y + region.height) * SAMPLE_HEIGHT);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = (y * SAMPLE_WIDTH + x) * 4;
+      cbs.push(chromaB(pixels[p], pixels[p + 1], pixels[p + 2]));
+      crs.push(chromaR(pixels[p], pixels[p + 1], pixels[p + 2]));
+    }
+  }
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? 0;
+  return { cb: median(cbs), cr: median(crs) };
+};
+
+// Downscales frames to the analysis resolution
+export const createPixelReader = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return (frame: HTMLCanvasElement | HTMLVideoElement): Uint8ClampedArray | null => {
+    if (!context) return null;
+    context.drawImage(frame, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    return context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data;
+  };
+};
+
+// Offline backend: skin segmentation + contour solidity, no network needed
+export const createLocalRecognizer = (calibration: LocalCalibration = DEFAULT_LOCAL_CALIBRATION): GestureRecognizer => {
+  let readPixels: ReturnType<typeof createPixelReader> | null = null;
+
+  return {
+    backend: 'local',
+    init: async () => {
+      readPixels = createPixelReader();
+    },
+    classify: async (frame: HTMLCanvasElement) => {
+      if (!readPixels || frame.width === 0 || frame.height === 0) return { ok: true, response: NONE_RESPONSE };
+
+      const pixels = readPixels(frame);
+      return { ok: true, response: pixels ? classifyPixels(pixels, calibration) : NONE_RESPONSE };
+    },
+    dispose: () => {
+      readPixels = null;
+    }
+  };
+};
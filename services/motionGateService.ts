@@ -0,0 +1,121 @@
+import {
+  MOTION_CHANGED_SHARE,
+  MOTION_GRID_HEIGHT,
+  MOTION_GRID_WIDTH,
+  MOTION_IDLE_INTERVAL_MS,
+  MOTION_PIXEL_THRESHOLD,
+  MOTION_SETTLE_SAMPLES,
+  MOTION_UNCERTAIN_WINDOW_MS
+} from "../constants";
+
+export interface MotionDetector {
+  // Share of cells (0-1) that changed since the reference frame; 1 when there is no reference yet
+  measure(source: CanvasImageSource): number;
+  markReference(): void; // The last measured frame is what the current result describes
+  reset(): void;
+}
+
+// Frame differencing on a tiny greyscale copy of the camera: cheap enough to run every probe
+export const createMotionDetector = (
+  width: number = MOTION_GRID_WIDTH,
+  height: number = MOTION_GRID_HEIGHT,
+  pixelThreshold: number = MOTION_PIXEL_THRESHOLD
+): MotionDetector => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  const current = new Uint8Array(width * height);
+  const reference = new Uint8Array(width * height);
+  let hasReference = false;
+
+  return {
+    measure: (source) => {
+      if (!context) return 1;
+      context.drawImage(source, 0, 0, width, height);
+      const { data } = context.getImageData(0, 0, width, height);
+
+      let changed = 0;
+      for (let i = 0; i < current.length; i++) {
+        const p = i * 4;
+        current[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8; // Luma
+        if (Math.abs(current[i] - reference[i]) > pixelThreshold) changed++;
+      }
+      return hasReference ? changed / current.length : 1;
+    },
+    markReference: () => {
+      reference.set(current);
+      hasReference = true;
+    },
+    reset: () => {
+      hasReference = false;
+    }
+  };
+};
+
+export type SamplingMode = 'active' | 'idle' | 'paused';
+
+export interface SamplerOptions {
+  changedShare: number;     // Motion above this triggers a sample
+  settleSamples: number;    // Fast samples after motion stops, so the gesture vote can settle
+  uncertainWindowMs: number; // How long after motion uncertain results keep sampling fast
+  idleIntervalMs: number;   // Refresh interval while nothing changes
+}
+
+export interface FrameSampler {
+  // Whether to classify this probe. activeIntervalMs is the fastest allowed rate.
+  shouldSample(motion: number, now: number, activeIntervalMs: number): boolean;
+  sampled(now: number): void;
+  observe(uncertain: boolean): void; // Called with each result the recognizer returns
+  mode(now: number): SamplingMode;
+  reset(): void; // Start over: sample straight away, then settle
+}
+
+const DEFAULT_SAMPLER_OPTIONS: SamplerOptions = {
+  changedShare: MOTION_CHANGED_SHARE,
+  settleSamples: MOTION_SETTLE_SAMPLES,
+  uncertainWindowMs: MOTION_UNCERTAIN_WINDOW_MS,
+  idleIntervalMs: MOTION_IDLE_INTERVAL_MS
+};
+
+// Decides when a frame is worth a recognizer call:
+// - motion samples straight away, at most once per active interval
+// - after motion, a few more samples at the active rate let the vote settle and poses fire
+// - uncertain results keep the fast rate for a while, in case the hand is still deciding
+// - a static scene is only re-checked every idle interval, to catch slow drift
+export const createFrameSampler = (overrides: Partial<SamplerOptions> = {}): FrameSampler => {
+  const options = { ...DEFAULT_SAMPLER_OPTIONS, ...overrides };
+  let lastSampleAt = -Infinity;
+  let lastMotionAt = -Infinity;
+  let settleLeft = options.settleSamples;
+  let uncertain = false;
+
+  const wantsFastRate = (now: number) =>
+    settleLeft > 0 || (uncertain && now - lastMotionAt < options.uncertainWindowMs);
+
+  return {
+    shouldSample: (motion, now, activeIntervalMs) => {
+      if (motion >= options.changedShare) {
+        lastMotionAt = now;
+        settleLeft = options.settleSamples;
+      }
+      const since = now - lastSampleAt;
+      if (since < activeIntervalMs) return false;
+      return wantsFastRate(now) || since >= options.idleIntervalMs;
+    },
+    sampled: (now) => {
+      lastSampleAt = now;
+      settleLeft = Math.max(0, settleLeft - 1);
+    },
+    observe: (value) => {
+      uncertain = value;
+    },
+    mode: (now) => (wantsFastRate(now) ? 'active' : 'idle'),
+    reset: () => {
+      lastSampleAt = -Infinity;
+      lastMotionAt = performance.now();
+      settleLeft = options.settleSamples;
+      uncertain = false;
+    }
+  };
+};
@@ -0,0 +1,409 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { FormationBuffers, TextTargets } from "../types";
+import { SIM_SPRING_NEBULA, SIM_CURL_SCALE, SIM_CURL_SPEED, TWIN_OFFSET, TWIN_SCALE } from "../constants";
+
+// Uniforms the scene drives every frame. They are shared by reference with the
+// velocity pass, so writing .value is all it takes.
+// Pairs (vec2, two hands) are per particle group: x for group 0, y for group 1.
+export interface SimulationUniforms {
+  uTime: { value: number };
+  uExpansion: { value: THREE.Vector2 }; // 0 = formation, 1 = nebula
+  uMorph: { value: number };       // 0 = previous formation, 1 = current formation
+  uTextMix: { value: number };     // 0 = free nebula, 1 = particles spell the phrase
+  uTextToLocal: { value: THREE.Matrix4 };
+  uHand: { value: THREE.Vector3[] }; // Local space
+  uHandStrength: { value: THREE.Vector2 };
+  uHandForce: { value: number };
+  uHandRadius: { value: number };
+  uBurst: { value: THREE.Vector2 }; // Outward acceleration, decays in the scene
+  uTwin: { value: number };        // 0 = one formation, 1 = split into two smaller ones, one per group
+  uTwinAxis: { value: THREE.Vector3 }; // Local direction the twins sit along (the screen's right)
+  uSpringFormed: { value: number };
+  uDamping: { value: number };
+  uCurlStrength: { value: number };
+}
+
+export interface SimulationOptions {
+  curlNoise: boolean; // Otherwise a cheap sine wobble
+  seed?: ParticleSimulation | null; // Carry particles over from a simulation being replaced
+}
+
+export interface ParticleSimulation {
+  readonly size: number;
+  readonly count: number;
+  // Start morphing toward `next`, baking in how far the current morph had got
+  morphTo(next: FormationBuffers, progress: number): void;
+  setText(targets: TextTargets): void;
+  setNebula(positions: Float32Array): void;
+  step(delta: number): void;
+  positionTexture(): THREE.Texture;
+  velocityTexture(): THREE.Texture;
+  dispose(): void;
+}
+
+// 3D simplex noise with analytic gradient (Ashima Arts / Stefan Gustavson, MIT)
+const noiseChunk = `
+  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec4 permute(vec4 x) { return mod289(((x * 34.0) + 10.0) * x); }
+  vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+  float snoise(vec3 v, out vec3 gradient) {
+    const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+    const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+    vec3 i = floor(v + dot(v, C.yyy));
+    vec3 x0 = v - i + dot(i, C.xxx);
+
+    vec3 g = step(x0.yzx, x0.xyz);
+    vec3 l = 1.0 - g;
+    vec3 i1 = min(g.xyz, l.zxy);
+    vec3 i2 = max(g.xyz, l.zxy);
+
+    vec3 x1 = x0 - i1 + C.xxx;
+    vec3 x2 = x0 - i2 + C.yyy;
+    vec3 x3 = x0 - D.yyy;
+
+    i = mod289(i);
+    vec4 p = permute(permute(permute(
+      i.z + vec4(0.0, i1.z, i2.z, 1.0))
+      + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+      + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+    float n_ = 0.142857142857;
+    vec3 ns = n_ * D.wyz - D.xzx;
+
+    vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+    vec4 x_ = floor(j * ns.z);
+    vec4 y_ = floor(j - 7.0 * x_);
+
+    vec4 x = x_ * ns.x + ns.yyyy;
+    vec4 y = y_ * ns.x + ns.yyyy;
+    vec4 h = 1.0 - abs(x) - abs(y);
+
+    vec4 b0 = vec4(x.xy, y.xy);
+    vec4 b1 = vec4(x.zw, y.zw);
+    vec4 s0 = floor(b0) * 2.0 + 1.0;
+    vec4 s1 = floor(b1) * 2.0 + 1.0;
+    vec4 sh = -step(h, vec4(0.0));
+
+    vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+    vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+    vec3 p0 = vec3(a0.xy, h.x);
+    vec3 p1 = vec3(a0.zw, h.y);
+    vec3 p2 = vec3(a1.xy, h.z);
+    vec3 p3 = vec3(a1.zw, h.w);
+
+    vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+    p0 *= norm.x;
+    p1 *= norm.y;
+    p2 *= norm.z;
+    p3 *= norm.w;
+
+    vec4 m = max(0.5 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+    vec4 m2 = m * m;
+    vec4 m4 = m2 * m2;
+    vec4 pdotx = vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3));
+
+    vec4 temp = m2 * m * pdotx;
+    gradient = -8.0 * (temp.x * x0 + temp.y * x1 + temp.z * x2 + temp.w * x3);
+    gradient += m4.x * p0 + m4.y * p1 + m4.z * p2 + m4.w * p3;
+    gradient *= 105.0;
+
+    return 105.0 * dot(m4, pdotx);
+  }
+
+  // Curl of three noise potentials: divergence free, so the stardust swirls instead of clumping
+  vec3 curlNoise(vec3 p) {
+    vec3 g1, g2, g3;
+    snoise(p, g1);
+    snoise(p + vec3(31.416, -47.853, 12.793), g2);
+    snoise(p + vec3(-233.145, 101.71, -71.113), g3);
+    return vec3(g3.y - g2.z, g1.z - g3.x, g2.x - g1.y);
+  }
+`;
+
+const velocityShader = `
+  uniform float uTime;
+  uniform float uDelta;
+  uniform vec2 uExpansion;
+  uniform float uMorph;
+  uniform float uTextMix;
+  uniform mat4 uTextToLocal;
+  uniform vec3 uHand[2];
+  uniform vec2 uHandStrength;
+  uniform float uHandForce;
+  uniform float uHandRadius;
+  uniform vec2 uBurst;
+  uniform float uTwin;
+  uniform vec3 uTwinAxis;
+  uniform float uTwinOffset;
+  uniform float uTwinScale;
+  uniform float uSpringFormed;
+  uniform float uSpringNebula;
+  uniform float uDamping;
+  uniform float uCurlScale;
+  uniform float uCurlSpeed;
+  uniform float uCurlStrength;
+
+  // xyz = formation position, w = orbital speed around local y (rad/s)
+  uniform sampler2D tFrom;
+  uniform sampler2D tTo;
+  // xyz = nebula position, w = random 0-1
+  uniform sampler2D tNebula;
+  // xyz = position in the text plane, w = 1 if the particle is part of the lettering
+  uniform sampler2D tText;
+  // x = group in the previous formation, y = in the current one, z = twin (0 = left, 1 = right)
+  uniform sampler2D tGroup;
+
+  ${noiseChunk}
+
+  const float TAU = 6.28318530718;
+
+  // Formation point carried around its orbit, and the velocity that orbit implies
+  vec3 orbiting(vec4 target, out vec3 orbitVelocity) {
+    float a = mod(uTime * target.w, TAU);
+    float c = cos(a);
+    float s = sin(a);
+    vec3 p = vec3(c * target.x + s * target.z, target.y, -s * target.x + c * target.z);
+    orbitVelocity = target.w * vec3(p.z, 0.0, -p.x);
+    return p;
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+
+    // Formation target, morphing from the previous one
+    float m = smoothstep(0.0, 1.0, uMorph);
+    vec3 fromVel;
+    vec3 toVel;
+    vec3 fromPos = orbiting(texture2D(tFrom, uv), fromVel);
+    vec3 toPos = orbiting(texture2D(tTo, uv), toVel);
+
+    // Which hand this particle follows: its part of the formation, or its twin when split in two
+    vec4 group = texture2D(tGroup, uv);
+    float g = mix(mix(group.x, group.y, m), group.z, uTwin);
+    vec3 centre = uTwinAxis * ((group.z * 2.0 - 1.0) * uTwinOffset * uTwin);
+    float scale = mix(1.0, uTwinScale, uTwin);
+    vec3 formed = mix(fromPos, toPos, m) * scale + centre;
+
+    // Nebula target, or the phrase for particles assigned to the lettering
+    vec4 nebula = texture2D(tNebula, uv);
+    vec4 text = texture2D(tText, uv);
+    float textBlend = uTextMix * text.w;
+    vec3 scattered = mix(nebula.xyz * scale + centre, (uTextToLocal * vec4(text.xyz, 1.0)).xyz, textBlend);
+
+    float t = smoothstep(0.0, 1.0, mix(uExpansion.x, uExpansion.y, g));
+    vec3 target = mix(formed, scattered, t);
+    // Damp relative to the orbit so ring particles keep circling instead of lagging behind
+    vec3 targetVel = mix(fromVel, toVel, m) * scale * (1.0 - t);
+
+    // Spring toward the target. Letters pull tighter so they stay readable.
+    float k = mix(uSpringFormed, uSpringNebula, t);
+    k = mix(k, uSpringFormed * 2.0, textBlend * t);
+    vec3 acc = (target - pos) * k - (vel - targetVel) * uDamping;
+
+    // Turbulence: a faint shimmer when formed, full swirl in the nebula, calm inside letters
+    #ifdef CURL_NOISE
+      vec3 drift = curlNoise(pos * uCurlScale + vec3(0.0, 0.0, uTime * uCurlSpeed));
+    #else
+      vec3 drift = vec3(
+        sin(uTime * 0.5 + nebula.y * 0.5),
+        cos(uTime * 0.3 + nebula.x * 0.5),
+        sin(uTime * 0.4 + nebula.z * 0.5)
+      ) * 0.5;
+    #endif
+    acc += drift * uCurlStrength * (0.08 + t) * (1.0 - textBlend * 0.9);
+
+    // Explosion when the hand opens: outward from the centre, each particle a little different
+    float burst = mix(uBurst.x, uBurst.y, g);
+    if (burst > 0.001) {
+      acc += normalize(pos - centre + vec3(0.0, 0.001, 0.0)) * burst * (0.4 + nebula.w);
+    }
+
+    // Each hand sweeps its group's stardust: gaussian falloff around its position.
+    // Scaled by the spring so the settled displacement is uHandForce at the centre.
+    for (int i = 0; i < 2; i++) {
+      float strength = (i == 0 ? uHandStrength.x * (1.0 - g) : uHandStrength.y * g);
+      if (strength > 0.001) {
+        vec3 toHand = uHand[i] - pos;
+        float dist = max(length(toHand), 0.001);
+        float falloff = exp(-(dist * dist) / (uHandRadius * uHandRadius));
+        acc += (toHand / dist) * uHandForce * falloff * strength * k * t;
+      }
+    }
+
+    // w carries this particle's expansion to the render pass
+    gl_FragColor = vec4(vel + acc * uDelta, t);
+  }
+`;
+
+const positionShader = `
+  uniform float uDelta;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(pos + vel * uDelta, 1.0);
+  }
+`;
+
+// Copies particle state from a simulation of another size, index for index.
+// Extra particles start on top of existing ones and spread out from there.
+const seedShader = `
+  uniform sampler2D tSource;
+  uniform float uSourceSize;
+
+  void main() {
+    float index = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+    float i = mod(index, uSourceSize * uSourceSize);
+    vec2 uv = (vec2(mod(i, uSourceSize), floor(i / uSourceSize)) + 0.5) / uSourceSize;
+    gl_FragColor = texture2D(tSource, uv);
+  }
+`;
+
+const createDataTexture = (size: number) => {
+  const texture = new THREE.DataTexture(new Float32Array(size * size * 4), size, size, THREE.RGBAFormat, THREE.FloatType);
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Interleave xyz + one scalar per particle into RGBA texels
+const pack = (target: Float32Array, xyz: Float32Array, w: Float32Array | number) => {
+  const count = target.length / 4;
+  for (let i = 0; i < count; i++) {
+    target[i * 4] = xyz[i * 3];
+    target[i * 4 + 1] = xyz[i * 3 + 1];
+    target[i * 4 + 2] = xyz[i * 3 + 2];
+    target[i * 4 + 3] = typeof w === 'number' ? w : w[i];
+  }
+};
+
+export const createParticleSimulation = (
+  renderer: THREE.WebGLRenderer,
+  size: number,
+  initial: FormationBuffers,
+  nebula: Float32Array,
+  uniforms: SimulationUniforms,
+  { curlNoise, seed = null }: SimulationOptions
+): ParticleSimulation => {
+  const count = size * size;
+  const gpuCompute = new GPUComputationRenderer(size, size, renderer);
+  // Half floats are too coarse for slow drift far from the origin, but beat not running at all
+  if (!renderer.extensions.has('EXT_color_buffer_float')) {
+    gpuCompute.setDataType(THREE.HalfFloatType);
+  }
+
+  const from = createDataTexture(size);
+  const to = createDataTexture(size);
+  const nebulaTexture = createDataTexture(size);
+  const text = createDataTexture(size);
+  const groups = createDataTexture(size);
+  const fromData = from.image.data as Float32Array;
+  const toData = to.image.data as Float32Array;
+  const groupData = groups.image.data as Float32Array;
+
+  pack(fromData, initial.positions, initial.orbits);
+  toData.set(fromData);
+  // Twins alternate, and particle order is shuffled, so each twin is an even sample
+  for (let i = 0; i < count; i++) {
+    groupData[i * 4] = initial.groups[i];
+    groupData[i * 4 + 1] = initial.groups[i];
+    groupData[i * 4 + 2] = i % 2;
+  }
+  const seeds = new Float32Array(count).map(() => Math.random());
+  const writeNebula = (positions: Float32Array) => {
+    pack(nebulaTexture.image.data as Float32Array, positions, seeds);
+    nebulaTexture.needsUpdate = true;
+  };
+  writeNebula(nebula);
+
+  // Start settled in the initial formation
+  const position0 = gpuCompute.createTexture();
+  pack(position0.image.data as Float32Array, initial.positions, 1);
+  const velocity0 = gpuCompute.createTexture();
+
+  const velocityVariable: Variable = gpuCompute.addVariable('textureVelocity', velocityShader, velocity0);
+  const positionVariable: Variable = gpuCompute.addVariable('texturePosition', positionShader, position0);
+  gpuCompute.setVariableDependencies(velocityVariable, [positionVariable, velocityVariable]);
+  gpuCompute.setVariableDependencies(positionVariable, [positionVariable, velocityVariable]);
+
+  const delta = { value: 0 };
+  Object.assign(velocityVariable.material.uniforms, uniforms, {
+    uDelta: delta,
+    uSpringNebula: { value: SIM_SPRING_NEBULA },
+    uCurlScale: { value: SIM_CURL_SCALE },
+    uCurlSpeed: { value: SIM_CURL_SPEED },
+    uTwinOffset: { value: TWIN_OFFSET },
+    uTwinScale: { value: TWIN_SCALE },
+    tFrom: { value: from },
+    tTo: { value: to },
+    tNebula: { value: nebulaTexture },
+    tText: { value: text },
+    tGroup: { value: groups }
+  });
+  positionVariable.material.uniforms.uDelta = delta;
+  if (curlNoise) velocityVariable.material.defines.CURL_NOISE = '';
+
+  const error = gpuCompute.init();
+  if (error) {
+    gpuCompute.dispose();
+    [from, to, nebulaTexture, text, groups, position0, velocity0].forEach(t => t.dispose());
+    throw new Error(`Particle simulation unavailable: ${error}`);
+  }
+
+  if (seed) {
+    const seedMaterial = gpuCompute.createShaderMaterial(seedShader, {
+      tSource: { value: null },
+      uSourceSize: { value: seed.size }
+    });
+    const copies: [Variable, THREE.Texture][] = [
+      [positionVariable, seed.positionTexture()],
+      [velocityVariable, seed.velocityTexture()]
+    ];
+    for (const [variable, source] of copies) {
+      seedMaterial.uniforms.tSource.value = source;
+      variable.renderTargets.forEach(target => gpuCompute.doRenderTarget(seedMaterial, target));
+    }
+    seedMaterial.dispose();
+  }
+
+  return {
+    size,
+    count,
+    morphTo: (next, progress) => {
+      const m = progress * progress * (3 - 2 * progress);
+      for (let i = 0; i < fromData.length; i++) {
+        fromData[i] += (toData[i] - fromData[i]) * m;
+      }
+      pack(toData, next.positions, next.orbits);
+      for (let i = 0; i < count; i++) {
+        groupData[i * 4] += (groupData[i * 4 + 1] - groupData[i * 4]) * m;
+        groupData[i * 4 + 1] = next.groups[i];
+      }
+      from.needsUpdate = true;
+      to.needsUpdate = true;
+      groups.needsUpdate = true;
+    },
+    setText: (targets) => {
+      pack(text.image.data as Float32Array, targets.positions, targets.weights);
+      text.needsUpdate = true;
+    },
+    setNebula: writeNebula,
+    step: (dt) => {
+      delta.value = dt;
+      gpuCompute.compute();
+    },
+    positionTexture: () => gpuCompute.getCurrentRenderTarget(positionVariable).texture,
+    velocityTexture: () => gpuCompute.getCurrentRenderTarget(velocityVariable).texture,
+    dispose: () => {
+      gpuCompute.dispose();
+      [from, to, nebulaTexture, text, groups, position0, velocity0].forEach(t => t.dispose());
+    }
+  };
+};
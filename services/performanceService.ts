@@ -0,0 +1,127 @@
+import { PerformanceStats, QualityTier, QualityTierId } from "../types";
+import {
+  QUALITY_TIERS,
+  DEFAULT_QUALITY_TIER,
+  QUALITY_QUERY_PARAM,
+  PERF_WINDOW_FRAMES,
+  PERF_DOWNGRADE_FRAME_MS,
+  PERF_UPGRADE_FRAME_MS,
+  PERF_UPGRADE_HOLD_MS,
+  PERF_SETTLE_MS,
+  PERF_RETRY_MS,
+  PERF_MAX_FRAME_MS
+} from "../constants";
+
+export interface GovernorConfig {
+  windowFrames: number;
+  downgradeFrameMs: number;
+  upgradeFrameMs: number;
+  upgradeHoldMs: number;
+  settleMs: number;
+  retryMs: number;
+  maxFrameMs: number;
+  pinned: boolean;
+}
+
+export interface PerformanceGovernor {
+  // Feed one frame's duration. Returns the new tier when it changes, otherwise null.
+  sample(frameMs: number, now: number): QualityTierId | null;
+  stats(): PerformanceStats;
+}
+
+const DEFAULT_CONFIG: GovernorConfig = {
+  windowFrames: PERF_WINDOW_FRAMES,
+  downgradeFrameMs: PERF_DOWNGRADE_FRAME_MS,
+  upgradeFrameMs: PERF_UPGRADE_FRAME_MS,
+  upgradeHoldMs: PERF_UPGRADE_HOLD_MS,
+  settleMs: PERF_SETTLE_MS,
+  retryMs: PERF_RETRY_MS,
+  maxFrameMs: PERF_MAX_FRAME_MS,
+  pinned: false
+};
+
+export const getQualityTier = (id: QualityTierId): QualityTier =>
+  QUALITY_TIERS.find(t => t.id === id) ?? QUALITY_TIERS.find(t => t.id === DEFAULT_QUALITY_TIER)!;
+
+// ?quality=low etc. fixes the tier, for demos and for checking a tier on fast hardware
+export const resolvePinnedTier = (): QualityTierId | null => {
+  const requested = new URLSearchParams(window.location.search).get(QUALITY_QUERY_PARAM);
+  return QUALITY_TIERS.find(t => t.id === requested)?.id ?? null;
+};
+
+// Steps one tier at a time, with hysteresis:
+// - down as soon as the window average is too slow
+// - up only after a long run of comfortably fast frames, and never straight back
+//   into a tier we just had to leave
+// - nothing is judged until a full window has been measured since the last change
+export const createPerformanceGovernor = (
+  initial: QualityTierId,
+  overrides: Partial<GovernorConfig> = {}
+): PerformanceGovernor => {
+  const config = { ...DEFAULT_CONFIG, ...overrides };
+
+  let index = Math.max(0, QUALITY_TIERS.findIndex(t => t.id === initial));
+  const frames: number[] = [];
+  let total = 0;
+  let settleUntil: number | null = null;
+  let fastSince: number | null = null;
+  const lockedUntil = QUALITY_TIERS.map(() => 0);
+
+  const average = () => (frames.length ? total / frames.length : 0);
+
+  const clear = () => {
+    frames.length = 0;
+    total = 0;
+    fastSince = null;
+  };
+
+  const change = (next: number, now: number) => {
+    index = next;
+    clear();
+    settleUntil = now + config.settleMs;
+    return QUALITY_TIERS[index].id;
+  };
+
+  return {
+    sample: (frameMs, now) => {
+      if (settleUntil === null) settleUntil = now + config.settleMs;
+      if (now < settleUntil) return null;
+
+      // A hidden tab or a GC pause says nothing about steady-state load
+      if (frameMs > config.maxFrameMs) {
+        clear();
+        return null;
+      }
+
+      frames.push(frameMs);
+      total += frameMs;
+      if (frames.length > config.windowFrames) total -= frames.shift()!;
+      if (config.pinned || frames.length < config.windowFrames) return null;
+
+      const avg = average();
+      if (avg > config.downgradeFrameMs && index > 0) {
+        lockedUntil[index] = now + config.retryMs;
+        return change(index - 1, now);
+      }
+
+      if (avg < config.upgradeFrameMs && index < QUALITY_TIERS.length - 1) {
+        fastSince ??= now;
+        if (now - fastSince >= config.upgradeHoldMs && now >= lockedUntil[index + 1]) {
+          return change(index + 1, now);
+        }
+      } else {
+        fastSince = null;
+      }
+      return null;
+    },
+    stats: () => {
+      const avg = average();
+      return {
+        tier: QUALITY_TIERS[index].id,
+        fps: avg > 0 ? 1000 / avg : 0,
+        frameMs: avg,
+        pinned: config.pinned
+      };
+    }
+  };
+};
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startMockGeminiServer } from '../scripts/mock-gemini-server.mjs';
+import { createGeminiClient } from './geminiClient';
+import { createPhraseProvider, generatePhrases, isAcceptablePhrase } from './phraseGeneratorService';
+import { BUILTIN_PACK, drawPhrase } from './phraseService';
+import { FALLBACK_LOCALE, PHRASES } from '../constants';
+
+const REQUEST = { locale: 'en', mood: null };
+
+let mock: Awaited<ReturnType<typeof startMockGeminiServer>>;
+
+beforeAll(async () => {
+  mock = await startMockGeminiServer();
+});
+
+afterAll(() => mock.close());
+
+beforeEach(() => {
+  // The provider caches in localStorage, which Node doesn't have
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, value),
+    removeItem: (key: string) => void store.delete(key)
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const clientFor = (scenario: string) =>
+  createGeminiClient({ apiKey: 'test-key', baseUrl: `${mock.url}/scenario/${scenario}` });
+
+describe('isAcceptablePhrase', () => {
+  it('accepts a short, calm sentence', () => {
+    expect(isAcceptablePhrase('Stardust remembers your name')).toBe(true);
+  });
+
+  it('rejects shouting, lists of sentences, hashtags and emoji', () => {
+    expect(isAcceptablePhrase('WE ARE ALL STARS TONIGHT')).toBe(false);
+    expect(isAcceptablePhrase('One. Two. Three stars.')).toBe(false);
+    expect(isAcceptablePhrase('Shine on ✨ #cosmos')).toBe(false);
+    expect(isAcceptablePhrase('Hi')).toBe(false);
+  });
+
+  it('accepts scripts without case', () => {
+    expect(isAcceptablePhrase('별빛이 너의 길을 비춘다')).toBe(true); // Korean
+    expect(isAcceptablePhrase('النجوم تعرف اسمك الليلة')).toBe(true); // Arabic
+    expect(isAcceptablePhrase('הכוכבים זוכרים את שמך')).toBe(true); // Hebrew
+  });
+
+  it('measures scripts without spaces by character', () => {
+    expect(isAcceptablePhrase('星はいつもあなたを見守っている')).toBe(true); // Japanese
+    expect(isAcceptablePhrase('星光照亮你的路')).toBe(true); // Chinese
+    expect(isAcceptablePhrase('ดวงดาวส่องทางให้เธอ')).toBe(true); // Thai
+    expect(isAcceptablePhrase('星です')).toBe(false);
+    expect(isAcceptablePhrase('星は'.repeat(20))).toBe(false);
+    expect(isAcceptablePhrase('星が光る。月も光る。')).toBe(false);
+  });
+});
+
+describe('generatePhrases against the mock server', () => {
+  it('returns the batch the model sends', async () => {
+    const phrases = await generatePhrases(REQUEST, 12, clientFor('open'));
+    expect(phrases).toHaveLength(12);
+    expect(phrases).toContain('Every orbit brings you home again');
+  });
+
+  it('filters out everything that breaks the tone rules', async () => {
+    expect(await generatePhrases(REQUEST, 12, clientFor('unsafe-phrases'))).toEqual([]);
+  });
+
+  it('throws on quota and malformed responses', async () => {
+    await expect(generatePhrases(REQUEST, 12, clientFor('quota'))).rejects.toThrow();
+    await expect(generatePhrases(REQUEST, 12, clientFor('malformed'))).rejects.toThrow();
+  });
+});
+
+describe('createPhraseProvider', () => {
+  it('has nothing until a batch arrives, then serves it without repeats', async () => {
+    const provider = createPhraseProvider(clientFor('open'));
+    expect(provider.next(REQUEST)).toBeNull();
+
+    const served = await vi.waitFor(() => {
+      const phrase = provider.next(REQUEST);
+      if (!phrase) throw new Error('Batch not cached yet');
+      return phrase;
+    });
+    expect(PHRASES).not.toContain(served);
+    expect(provider.next(REQUEST)).not.toBe(served);
+  });
+
+  it('leaves the caller on the built-in pack when generation fails', async () => {
+    const provider = createPhraseProvider(clientFor('quota'));
+    expect(provider.next(REQUEST)).toBeNull();
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalledWith("Phrase generation failed:", expect.anything()));
+
+    // Still nothing cached, and backing off rather than asking again
+    expect(provider.next(REQUEST)).toBeNull();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+
+    const fallback = drawPhrase(BUILTIN_PACK, FALLBACK_LOCALE, null);
+    expect(PHRASES).toContain(fallback?.text);
+  });
+});
@@ -0,0 +1,191 @@
+import { Type } from "@google/genai";
+import { GeminiClient, getGeminiClient } from "./geminiClient";
+import {
+  PHRASES,
+  PHRASE_MODEL,
+  GENERATED_PHRASES_STORAGE_KEY,
+  GENERATED_BATCH_SIZE,
+  GENERATED_REFILL_THRESHOLD,
+  GENERATED_HISTORY_SIZE,
+  GENERATED_BACKOFF_MS,
+  GENERATED_MIN_LENGTH,
+  GENERATED_MAX_LENGTH,
+  GENERATED_MAX_WORDS,
+  GENERATED_MIN_LENGTH_UNSPACED,
+  GENERATED_MAX_LENGTH_UNSPACED,
+  PHRASE_BLOCKLIST
+} from "../constants";
+
+export interface GenerationRequest {
+  locale: string;
+  mood: string | null;
+}
+
+export interface PhraseProvider {
+  // Next unseen generated phrase, or null if none are cached yet (caller falls back)
+  next(request: GenerationRequest): string | null;
+  // Top up the cache in the background if it's running low
+  prefetch(request: GenerationRequest): void;
+}
+
+// Per locale+mood pool. Unseen phrases are queued, seen ones remembered to skip repeats.
+interface CachedPool {
+  unseen: string[];
+  seen: string[];
+}
+
+const phraseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    phrases: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Short standalone affirmations, one sentence each."
+    }
+  },
+  required: ["phrases"]
+};
+
+const normalizeKey = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const BLOCKLIST_PATTERN = new RegExp(`\\b(${PHRASE_BLOCKLIST.join('|')})\\b`, 'i');
+
+// Chinese, Japanese, Thai, Lao, Khmer and Burmese run words together
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// Length as people count it: "é" or "👍🏽" is one, whatever the code units
+const visibleLength = (text: string) => [...graphemes.segment(text)].length;
+
+// Length and tone rules for anything the model sends back
+export const isAcceptablePhrase = (text: string): boolean => {
+  const trimmed = text.trim();
+  const length = visibleLength(trimmed);
+  if (UNSPACED_SCRIPT.test(trimmed)) {
+    if (length < GENERATED_MIN_LENGTH_UNSPACED || length > GENERATED_MAX_LENGTH_UNSPACED) return false;
+  } else {
+    if (length < GENERATED_MIN_LENGTH || length > GENERATED_MAX_LENGTH) return false;
+    if (trimmed.split(/\s+/).length > GENERATED_MAX_WORDS) return false;
+  }
+  // One sentence, no lists, quotes, hashtags, links or emoji
+  if (/[\n"“”#@<>]|https?:|\p{Extended_Pictographic}/u.test(trimmed)) return false;
+  if ((trimmed.match(/[.!?。！？]/g) ?? []).length > 1) return false;
+  // Shouting, in scripts that have case at all
+  if (trimmed.toLowerCase() !== trimmed.toUpperCase() && trimmed === trimmed.toUpperCase()) return false;
+  return !BLOCKLIST_PATTERN.test(trimmed);
+};
+
+const buildPrompt = ({ locale, mood, count }: GenerationRequest & { count: number }) =>
+  [
+    `Write ${count} new short cosmic affirmations in the language with BCP 47 tag "${locale}".`,
+    mood ? `The mood should be ${mood}.` : '',
+    `Each must be one sentence of at most ${GENERATED_MAX_WORDS} words, gentle and uplifting, using imagery of stars, planets, orbits, light and space.`,
+    'No quotes, emoji, hashtags or numbering. Return JSON.',
+    `Match the style of: "${PHRASES[0]}", "${PHRASES[14]}", "${PHRASES[7]}".`
+  ].filter(Boolean).join(' ');
+
+export const generatePhrases = async (
+  request: GenerationRequest,
+  count: number = GENERATED_BATCH_SIZE,
+  client?: GeminiClient
+): Promise<string[]> => {
+  const response = await (client ?? getGeminiClient()).generateContent({
+    model: PHRASE_MODEL,
+    contents: buildPrompt({ ...request, count }),
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: phraseSchema,
+      temperature: 1.0 // We want variety here
+    }
+  });
+
+  const text = response.text;
+  if (!text) return [];
+  const data = JSON.parse(text) as { phrases?: unknown };
+  if (!Array.isArray(data.phrases)) return [];
+  return data.phrases.filter((p): p is string => typeof p === 'string').map(p => p.trim()).filter(isAcceptablePhrase);
+};
+
+const isQuotaError = (error: unknown) => {
+  const e = error as { status?: number; message?: string };
+  return e?.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(e?.message ?? '');
+};
+
+const poolKey = ({ locale, mood }: GenerationRequest) => `${locale}|${mood ?? '*'}`;
+
+const readCache = (): Record<string, CachedPool> => {
+  try {
+    return JSON.parse(localStorage.getItem(GENERATED_PHRASES_STORAGE_KEY) ?? '{}') as Record<string, CachedPool>;
+  } catch {
+    return {};
+  }
+};
+
+const writeCache = (cache: Record<string, CachedPool>) => {
+  try {
+    localStorage.setItem(GENERATED_PHRASES_STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.warn("Could not save generated phrases:", error);
+  }
+};
+
+export const createPhraseProvider = (client?: GeminiClient): PhraseProvider => {
+  const inFlight = new Set<string>();
+  let backoffUntil = 0;
+
+  const getPool = (cache: Record<string, CachedPool>, key: string): CachedPool => {
+    const pool = cache[key];
+    return pool && Array.isArray(pool.unseen) && Array.isArray(pool.seen) ? pool : { unseen: [], seen: [] };
+  };
+
+  const prefetch = (request: GenerationRequest) => {
+    const key = poolKey(request);
+    const pool = getPool(readCache(), key);
+
+    if (pool.unseen.length >= GENERATED_REFILL_THRESHOLD || inFlight.has(key)) return;
+    // Offline or rate-limited: the caller keeps using bundled phrases
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+    if (offline || Date.now() < backoffUntil) return;
+
+    inFlight.add(key);
+    generatePhrases(request, GENERATED_BATCH_SIZE, client)
+      .then((phrases) => {
+        // Re-read, other tabs or calls may have touched the cache meanwhile
+        const cache = readCache();
+        const current = getPool(cache, key);
+        const known = new Set([...current.unseen, ...current.seen, ...PHRASES].map(normalizeKey));
+        for (const phrase of phrases) {
+          const norm = normalizeKey(phrase);
+          if (known.has(norm)) continue;
+          known.add(norm);
+          current.unseen.push(phrase);
+        }
+        cache[key] = current;
+        writeCache(cache);
+      })
+      .catch((error) => {
+        if (isQuotaError(error)) backoffUntil = Date.now() + GENERATED_BACKOFF_MS;
+        console.warn("Phrase generation failed:", error);
+      })
+      .finally(() => inFlight.delete(key));
+  };
+
+  return {
+    next: (request) => {
+      const key = poolKey(request);
+      const cache = readCache();
+      const pool = getPool(cache, key);
+      const phrase = pool.unseen.shift() ?? null;
+
+      if (phrase) {
+        pool.seen = [...pool.seen, phrase].slice(-GENERATED_HISTORY_SIZE);
+        cache[key] = pool;
+        writeCache(cache);
+      }
+      prefetch(request);
+      return phrase;
+    },
+    prefetch
+  };
+};
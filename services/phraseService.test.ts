@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PhraseData, PhrasePack } from '../types';
+import { PHRASE_CYCLE_STORAGE_PREFIX } from '../constants';
+import { drawPhrase, selectLocale } from './phraseService';
+
+const phrase = (id: string, weight?: number): PhraseData =>
+  ({ id, text: `Phrase ${id}`, locale: 'en', category: 'cosmic', ...(weight !== undefined && { weight }) });
+
+const pack = (...phrases: PhraseData[]): PhrasePack => ({ id: 'test', name: 'Test', phrases });
+
+const CYCLE_KEY = `${PHRASE_CYCLE_STORAGE_PREFIX}test.en.*`;
+
+let store: Map<string, string>;
+
+beforeEach(() => {
+  // The no-repeat cycle lives in localStorage, which Node doesn't have
+  store = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, value)
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('drawPhrase', () => {
+  it('gives each phrase a share of the roll in proportion to its weight', () => {
+    const weighted = pack(phrase('a'), phrase('b', 3));
+    const random = vi.spyOn(Math, 'random');
+
+    // a has 1 of the 4 units of weight: the first quarter of the roll
+    random.mockReturnValue(0.24);
+    expect(drawPhrase(weighted, 'en', null)?.id).toBe('a');
+    store.clear();
+    random.mockReturnValue(0.26);
+    expect(drawPhrase(weighted, 'en', null)?.id).toBe('b');
+  });
+
+  it('picks up the no-repeat cycle left in storage by an earlier visit', () => {
+    store.set(CYCLE_KEY, JSON.stringify(['c']));
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    // Only c was left, so it comes next whatever the roll; then the cycle starts over
+    expect(drawPhrase(pack(phrase('a'), phrase('b'), phrase('c')), 'en', null)?.id).toBe('c');
+    expect(JSON.parse(store.get(CYCLE_KEY)!)).toEqual([]);
+    expect(drawPhrase(pack(phrase('a'), phrase('b'), phrase('c')), 'en', null)?.id).toBe('a');
+    expect(JSON.parse(store.get(CYCLE_KEY)!)).toEqual(['b', 'c']);
+  });
+
+  it("doesn't repeat a phrase until the pool is used up", () => {
+    const three = pack(phrase('a'), phrase('b', 5), phrase('c'));
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const drawn = [1, 2, 3].map(() => drawPhrase(three, 'en', null)?.id);
+    expect(new Set(drawn)).toEqual(new Set(['a', 'b', 'c']));
+  });
+});
+
+describe('selectLocale', () => {
+  const available = ['en', 'es', 'pt-BR', 'fr-CA'];
+
+  it('prefers an exact tag, in any case', () => {
+    expect(selectLocale(available, ['FR-ca'])).toBe('fr-CA');
+  });
+
+  it('falls back to the base language', () => {
+    expect(selectLocale(available, ['pt-PT'])).toBe('pt-BR');
+    expect(selectLocale(available, ['es-MX'])).toBe('es');
+  });
+
+  it('tries each preferred language in order before falling back', () => {
+    expect(selectLocale(available, ['de-DE', 'es'])).toBe('es');
+  });
+
+  it('falls back to English, or the first locale the pack has', () => {
+    expect(selectLocale(available, ['ja'])).toBe('en');
+    expect(selectLocale(['de', 'fr'], ['ja'])).toBe('de');
+  });
+});
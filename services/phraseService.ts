@@ -0,0 +1,144 @@
+import { PhraseData, PhrasePack, PhrasePackInfo, PhrasePreferences } from "../types";
+import {
+  PHRASES,
+  BUILTIN_PACK_ID,
+  PHRASE_PACKS_MANIFEST_URL,
+  PHRASE_PREFS_STORAGE_KEY,
+  PHRASE_CYCLE_STORAGE_PREFIX,
+  FALLBACK_LOCALE
+} from "../constants";
+
+// The bundled phrases, always available even if no pack can be fetched
+export const BUILTIN_PACK: PhrasePack = {
+  id: BUILTIN_PACK_ID,
+  name: 'Cosmic Wisdom',
+  phrases: PHRASES.map((text, i) => ({
+    id: `${BUILTIN_PACK_ID}-${String(i + 1).padStart(3, '0')}`,
+    text,
+    locale: FALLBACK_LOCALE,
+    category: 'cosmic'
+  }))
+};
+
+export const BUILTIN_PACK_INFO: PhrasePackInfo = {
+  id: BUILTIN_PACK_ID,
+  name: BUILTIN_PACK.name,
+  url: '',
+  locales: [FALLBACK_LOCALE]
+};
+
+const DEFAULT_PREFERENCES: PhrasePreferences = {
+  packId: BUILTIN_PACK_ID,
+  locale: null,
+  category: null,
+  source: 'pack',
+  mood: null
+};
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+};
+
+export const loadPhrasePreferences = (): PhrasePreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...readJson<Partial<PhrasePreferences>>(PHRASE_PREFS_STORAGE_KEY)
+});
+
+export const savePhrasePreferences = (prefs: PhrasePreferences) => writeJson(PHRASE_PREFS_STORAGE_KEY, prefs);
+
+// Manifest lists the packs a deployment ships. The built-in pack is always first.
+export const loadPackManifest = async (): Promise<PhrasePackInfo[]> => {
+  try {
+    const res = await fetch(PHRASE_PACKS_MANIFEST_URL);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json() as { packs?: PhrasePackInfo[] };
+    const packs = (data.packs ?? []).filter(p => p && typeof p.id === 'string' && typeof p.url === 'string');
+    return [BUILTIN_PACK_INFO, ...packs.filter(p => p.id !== BUILTIN_PACK_ID)];
+  } catch (error) {
+    console.warn("Phrase pack manifest unavailable, using built-in phrases:", error);
+    return [BUILTIN_PACK_INFO];
+  }
+};
+
+const isPhrase = (value: unknown): value is PhraseData => {
+  const p = value as PhraseData;
+  return !!p && typeof p.id === 'string' && typeof p.text === 'string' && p.text.trim() !== ''
+    && typeof p.locale === 'string'
+    && (p.weight === undefined || (typeof p.weight === 'number' && p.weight > 0));
+};
+
+export const loadPhrasePack = async (info: PhrasePackInfo): Promise<PhrasePack> => {
+  if (info.id === BUILTIN_PACK_ID) return BUILTIN_PACK;
+
+  const res = await fetch(info.url);
+  if (!res.ok) throw new Error(`Failed to load phrase pack '${info.id}': ${res.status}`);
+  const data = await res.json() as PhrasePack;
+  const phrases = Array.isArray(data.phrases) ? data.phrases.filter(isPhrase) : [];
+  if (phrases.length === 0) throw new Error(`Phrase pack '${info.id}' has no valid phrases.`);
+
+  return { id: info.id, name: data.name ?? info.name, description: data.description, phrases };
+};
+
+export const packLocales = (pack: PhrasePack): string[] =>
+  Array.from(new Set(pack.phrases.map(p => p.locale)));
+
+export const packCategories = (pack: PhrasePack): string[] =>
+  Array.from(new Set(pack.phrases.map(p => p.category).filter((c): c is string => !!c))).sort();
+
+// Best match for the browser's languages: exact tag, then base language, then fallback
+export const selectLocale = (
+  available: string[],
+  preferred: readonly string[] = navigator.languages ?? [navigator.language]
+): string => {
+  const lower = available.map(l => l.toLowerCase());
+  for (const wanted of preferred.map(l => l.toLowerCase())) {
+    const exact = lower.indexOf(wanted);
+    if (exact >= 0) return available[exact];
+    const base = wanted.split('-')[0];
+    const partial = lower.findIndex(l => l.split('-')[0] === base);
+    if (partial >= 0) return available[partial];
+  }
+  return available.includes(FALLBACK_LOCALE) ? FALLBACK_LOCALE : (available[0] ?? FALLBACK_LOCALE);
+};
+
+const weightedPick = (phrases: PhraseData[]): PhraseData => {
+  const total = phrases.reduce((sum, p) => sum + (p.weight ?? 1), 0);
+  let roll = Math.random() * total;
+  for (const phrase of phrases) {
+    roll -= phrase.weight ?? 1;
+    if (roll < 0) return phrase;
+  }
+  return phrases[phrases.length - 1];
+};
+
+// Weighted pick without repetition until the pool is exhausted.
+// The remaining ids survive reloads, per pack/locale/category pool.
+export const drawPhrase = (pack: PhrasePack, locale: string, category: string | null): PhraseData | null => {
+  const pool = pack.phrases.filter(p => p.locale === locale && (!category || p.category === category));
+  if (pool.length === 0) return null;
+
+  const cycleKey = `${PHRASE_CYCLE_STORAGE_PREFIX}${pack.id}.${locale}.${category ?? '*'}`;
+  const remainingIds = new Set(readJson<string[]>(cycleKey) ?? []);
+  let remaining = pool.filter(p => remainingIds.has(p.id));
+  if (remaining.length === 0) {
+    // Reset if we used all phrases
+    remaining = pool;
+  }
+
+  const phrase = weightedPick(remaining);
+  writeJson(cycleKey, remaining.filter(p => p !== phrase).map(p => p.id));
+  return phrase;
+};
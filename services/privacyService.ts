@@ -0,0 +1,123 @@
+import { CameraConsent, GeminiVisionResponse, GestureRecognizer, HandBox, RecognizerOptions, RedactionStyle } from "../types";
+import {
+  CONSENT_STORAGE_KEY,
+  PRIVACY_QUERY_PARAM,
+  REDACT_BLUR_FACTOR,
+  REDACT_BOX_TTL_MS,
+  REDACT_MIN_CONFIDENCE,
+  REDACT_PADDING,
+  REDACTION_STYLE
+} from "../constants";
+
+const CONSENT_VALUES: CameraConsent[] = ['granted', 'local', 'declined'];
+
+// Kiosks can't be talked out of it: set LOCAL_ONLY=true at build time, or ?privacy=local
+export const isLocalOnlyEnforced = (): boolean =>
+  process.env.LOCAL_ONLY === 'true' ||
+  new URLSearchParams(window.location.search).get(PRIVACY_QUERY_PARAM) === 'local';
+
+export const loadConsent = (): CameraConsent | null => {
+  try {
+    const value = sessionStorage.getItem(CONSENT_STORAGE_KEY) as CameraConsent | null;
+    return value && CONSENT_VALUES.includes(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveConsent = (consent: CameraConsent | null) => {
+  try {
+    if (consent) {
+      sessionStorage.setItem(CONSENT_STORAGE_KEY, consent);
+    } else {
+      sessionStorage.removeItem(CONSENT_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("Could not save camera consent:", error);
+  }
+};
+
+export interface FrameRedactor {
+  redact(frame: HTMLCanvasElement, now: number): HTMLCanvasElement;
+  update(response: GeminiVisionResponse, now: number): void; // Follow the hands the recognizer reports
+}
+
+// Keeps the last known hand boxes sharp and hides the rest. Until there is a box,
+// the whole frame goes out blurred: enough to find a hand, not enough to recognise a face.
+// The image keeps its size, so positions in the response still map onto the camera frame.
+export const createFrameRedactor = (style: RedactionStyle = REDACTION_STYLE): FrameRedactor => {
+  const output = document.createElement('canvas');
+  const outputContext = output.getContext('2d');
+  const small = document.createElement('canvas');
+  const smallContext = small.getContext('2d');
+  let hands: HandBox[] = [];
+  let seenAt = -Infinity;
+
+  const blurInto = (frame: HTMLCanvasElement) => {
+    if (!outputContext || !smallContext) return;
+    small.width = Math.max(1, Math.round(frame.width / REDACT_BLUR_FACTOR));
+    small.height = Math.max(1, Math.round(frame.height / REDACT_BLUR_FACTOR));
+    smallContext.drawImage(frame, 0, 0, small.width, small.height);
+    outputContext.imageSmoothingEnabled = true;
+    outputContext.drawImage(small, 0, 0, output.width, output.height);
+  };
+
+  return {
+    redact: (frame, now) => {
+      output.width = frame.width;
+      output.height = frame.height;
+      if (!outputContext) return output;
+      if (now - seenAt > REDACT_BOX_TTL_MS) hands = [];
+
+      if (hands.length > 0 && style === 'mask') {
+        outputContext.fillStyle = '#000';
+        outputContext.fillRect(0, 0, output.width, output.height);
+      } else {
+        blurInto(frame);
+      }
+
+      for (const box of hands) {
+        const x = Math.max(0, box.x - box.width * REDACT_PADDING) * frame.width;
+        const y = Math.max(0, box.y - box.height * REDACT_PADDING) * frame.height;
+        const width = Math.min(frame.width - x, box.width * (1 + 2 * REDACT_PADDING) * frame.width);
+        const height = Math.min(frame.height - y, box.height * (1 + 2 * REDACT_PADDING) * frame.height);
+        if (width > 0 && height > 0) outputContext.drawImage(frame, x, y, width, height, x, y, width, height);
+      }
+      return output;
+    },
+    update: (response, now) => {
+      if (response.gesture === 'NONE') {
+        hands = [];
+        return;
+      }
+      const boxes = (response.hands ?? [response])
+        .filter(hand => hand.boundingBox && hand.confidence >= REDACT_MIN_CONFIDENCE)
+        .map(hand => hand.boundingBox!);
+      if (boxes.length > 0) {
+        hands = boxes;
+        seenAt = now;
+      }
+    }
+  };
+};
+
+// Wraps a cloud backend so only redacted frames leave the device, and every upload is counted
+export const createRedactingRecognizer = (
+  inner: GestureRecognizer,
+  { redaction, onFrameSent }: RecognizerOptions = {}
+): GestureRecognizer => {
+  const redactor = createFrameRedactor(redaction);
+
+  return {
+    backend: inner.backend,
+    init: () => inner.init(),
+    classify: async (frame) => {
+      const redacted = redactor.redact(frame, performance.now());
+      onFrameSent?.();
+      const result = await inner.classify(redacted);
+      if (result.ok) redactor.update(result.response, performance.now());
+      return result;
+    },
+    dispose: () => inner.dispose()
+  };
+};
@@ -0,0 +1,45 @@
+import { CalibrationProfile, GestureRecognizer, RecognizerBackend, RecognizerOptions } from "../types";
+import { CLOUD_RECOGNIZERS, DEFAULT_RECOGNIZER, RECOGNIZER_QUERY_PARAM } from "../constants";
+import { createGeminiRecognizer } from "./visionService";
+import { createLocalRecognizer } from "./localVisionService";
+import { createRedactingRecognizer } from "./privacyService";
+
+// Each backend uses the part of a calibration it understands
+const factories: Record<RecognizerBackend, (calibration: CalibrationProfile | null) => GestureRecognizer> = {
+  gemini: (calibration) => createGeminiRecognizer(calibration?.examples),
+  local: (calibration) => createLocalRecognizer(calibration?.local ?? undefined)
+};
+
+const isBackend = (value: string | null): value is RecognizerBackend =>
+  value !== null && value in factories;
+
+export const isCloudBackend = (backend: RecognizerBackend): boolean => CLOUD_RECOGNIZERS.includes(backend);
+
+// Pick a backend at runtime:
+// 1. Local-only mode always gets an on-device backend
+// 2. Explicit ?recognizer=... in the URL wins
+// 3. Otherwise the default, unless it's the cloud one and we can't reach it
+export const resolveRecognizerBackend = (localOnly = false): RecognizerBackend => {
+  if (localOnly) return 'local';
+
+  const requested = new URLSearchParams(window.location.search).get(RECOGNIZER_QUERY_PARAM);
+  if (isBackend(requested)) return requested;
+
+  if (DEFAULT_RECOGNIZER === 'gemini' && (!process.env.API_KEY || !navigator.onLine)) {
+    return 'local';
+  }
+  return DEFAULT_RECOGNIZER;
+};
+
+// Cloud backends only ever see redacted frames
+export const createRecognizer = (
+  backend: RecognizerBackend = resolveRecognizerBackend(),
+  options: RecognizerOptions = {}
+): GestureRecognizer => {
+  const calibration = options.calibration ?? null;
+  if (!isCloudBackend(backend)) return factories[backend](calibration);
+  if (options.localOnly) {
+    throw new Error(`The '${backend}' recognizer sends frames off the device, which local-only mode doesn't allow.`);
+  }
+  return createRedactingRecognizer(factories[backend](calibration), options);
+};
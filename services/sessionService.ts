@@ -0,0 +1,91 @@
+import { GeminiVisionResponse, GestureRecognizer, RecordedFrame, RecordedSession } from "../types";
+import { FRAME_GESTURES, SESSION_MAX_FRAMES } from "../constants";
+
+const NONE_RESPONSE: GeminiVisionResponse = { gesture: 'NONE', confidence: 0 };
+
+export interface SessionRecorder {
+  readonly frameCount: number;
+  record(capturedAt: number, image: string, response: GeminiVisionResponse): void;
+  finish(): RecordedSession;
+}
+
+export const createSessionRecorder = (backend: RecordedSession['backend']): SessionRecorder => {
+  const startedAt = performance.now();
+  const recordedAt = new Date().toISOString();
+  const frames: RecordedFrame[] = [];
+
+  return {
+    get frameCount() {
+      return frames.length;
+    },
+    record: (capturedAt, image, response) => {
+      // Hard cap so a forgotten recording can't eat the kiosk's memory
+      if (frames.length >= SESSION_MAX_FRAMES) return;
+      frames.push({ t: Math.max(0, Math.round(capturedAt - startedAt)), image, response });
+    },
+    // Responses can land out of order, frames are stored in capture order
+    finish: () => ({ version: 1, backend, recordedAt, frames: [...frames].sort((a, b) => a.t - b.t) })
+  };
+};
+
+const isResponse = (value: unknown): value is GeminiVisionResponse => {
+  const r = value as GeminiVisionResponse;
+  return !!r && FRAME_GESTURES.includes(r.gesture) && typeof r.confidence === 'number';
+};
+
+const isFrame = (value: unknown): value is RecordedFrame => {
+  const f = value as RecordedFrame;
+  return !!f && typeof f.t === 'number' && typeof f.image === 'string' && isResponse(f.response);
+};
+
+export const parseSession = (text: string): RecordedSession => {
+  const data = JSON.parse(text) as RecordedSession;
+  if (data?.version !== 1 || !Array.isArray(data.frames) || !data.frames.every(isFrame)) {
+    throw new Error("Not a valid session file.");
+  }
+  // Replay relies on frames being in time order
+  data.frames.sort((a, b) => a.t - b.t);
+  return data;
+};
+
+export const loadSessionFromUrl = async (url: string): Promise<RecordedSession> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load session: ${res.status}`);
+  return parseSession(await res.text());
+};
+
+export const downloadSession = (session: RecordedSession) => {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `saturn-session-${session.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Plays back recorded responses in order instead of asking a real backend.
+// The replay loop draws frame N and then classifies, so the cursor stays in lockstep.
+export const createReplayRecognizer = (session: RecordedSession): GestureRecognizer => {
+  let cursor = 0;
+
+  return {
+    backend: 'replay',
+    init: async () => {
+      cursor = 0;
+    },
+    classify: async () => {
+      const frame = session.frames[cursor++];
+      return { ok: true, response: frame ? frame.response : NONE_RESPONSE };
+    },
+    dispose: () => {}
+  };
+};
+
+export const decodeFrameImage = (frame: RecordedFrame): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not decode frame at ${frame.t}ms`));
+    image.src = frame.image;
+  });
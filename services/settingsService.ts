@@ -0,0 +1,107 @@
+import { QualitySetting, SettingsPreset, VisualSettings } from "../types";
+import {
+  DEFAULT_VISUAL_SETTINGS,
+  SETTINGS_SCHEMA,
+  SETTINGS_PRESETS,
+  SETTINGS_QUERY_PARAM,
+  CUSTOM_PRESETS_STORAGE_KEY,
+  QUALITY_TIERS
+} from "../constants";
+
+const QUALITY_SETTINGS: QualitySetting[] = ['auto', ...QUALITY_TIERS.map(t => t.id)];
+const QUALITY_PARAM = 'q';
+
+const snap = (value: number, min: number, step: number) =>
+  Number((Math.round((value - min) / step) * step + min).toFixed(6));
+
+// Anything from a URL, storage or a preset goes through here: unknown keys are
+// dropped, numbers clamped to the schema and snapped to its step.
+export const sanitizeSettings = (raw: Partial<Record<keyof VisualSettings, unknown>>): VisualSettings => {
+  const settings: VisualSettings = { ...DEFAULT_VISUAL_SETTINGS };
+
+  for (const def of SETTINGS_SCHEMA) {
+    const value = Number(raw[def.key]);
+    if (raw[def.key] === undefined || raw[def.key] === '' || !Number.isFinite(value)) continue;
+    settings[def.key] = snap(Math.min(def.max, Math.max(def.min, value)), def.min, def.step);
+  }
+  if (QUALITY_SETTINGS.includes(raw.quality as QualitySetting)) {
+    settings.quality = raw.quality as QualitySetting;
+  }
+
+  // Rings need some width, and shouldn't start inside the planet
+  settings.ringInnerRadius = Math.max(settings.ringInnerRadius, settings.saturnRadius + 1);
+  settings.ringOuterRadius = Math.max(settings.ringOuterRadius, settings.ringInnerRadius + 1);
+  return settings;
+};
+
+export const applyPreset = (preset: SettingsPreset): VisualSettings => sanitizeSettings(preset.settings);
+
+// Only what differs from the defaults, as short key:value pairs, e.g. "sr:18,ro:55,q:low"
+export const encodeSettings = (settings: VisualSettings): string => {
+  const pairs = SETTINGS_SCHEMA
+    .filter(def => settings[def.key] !== DEFAULT_VISUAL_SETTINGS[def.key])
+    .map(def => `${def.param}:${settings[def.key]}`);
+  if (settings.quality !== DEFAULT_VISUAL_SETTINGS.quality) pairs.push(`${QUALITY_PARAM}:${settings.quality}`);
+  return pairs.join(',');
+};
+
+export const decodeSettings = (encoded: string): VisualSettings => {
+  const raw: Partial<Record<keyof VisualSettings, unknown>> = {};
+  for (const pair of encoded.split(',')) {
+    const [param, value] = pair.split(':');
+    if (param === QUALITY_PARAM) {
+      raw.quality = value;
+      continue;
+    }
+    const def = SETTINGS_SCHEMA.find(d => d.param === param);
+    if (def) raw[def.key] = value;
+  }
+  return sanitizeSettings(raw);
+};
+
+export const loadSettingsFromUrl = (): VisualSettings => {
+  const encoded = new URLSearchParams(window.location.search).get(SETTINGS_QUERY_PARAM);
+  return encoded ? decodeSettings(encoded) : { ...DEFAULT_VISUAL_SETTINGS };
+};
+
+// Keeps the address bar in sync without adding history entries, so the link is always shareable
+export const writeSettingsToUrl = (settings: VisualSettings) => {
+  const url = new URL(window.location.href);
+  const encoded = encodeSettings(settings);
+  if (encoded) {
+    url.searchParams.set(SETTINGS_QUERY_PARAM, encoded);
+  } else {
+    url.searchParams.delete(SETTINGS_QUERY_PARAM);
+  }
+  // URLSearchParams escapes ':' and ','; they're safe in a query string and far easier to read
+  const search = url.searchParams.toString().replace(/%3A/gi, ':').replace(/%2C/gi, ',');
+  window.history.replaceState(window.history.state, '', `${url.pathname}${search ? `?${search}` : ''}${url.hash}`);
+};
+
+export const loadCustomPresets = (): SettingsPreset[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY);
+    const presets = raw ? JSON.parse(raw) as SettingsPreset[] : [];
+    return Array.isArray(presets)
+      ? presets.filter(p => p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.settings === 'object')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: SettingsPreset[]) => {
+  try {
+    localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn("Could not save presets:", error);
+  }
+};
+
+export const allPresets = (custom: SettingsPreset[]): SettingsPreset[] => [...SETTINGS_PRESETS, ...custom];
+
+// Which preset (if any) the current settings are exactly
+export const matchPreset = (settings: VisualSettings, presets: SettingsPreset[]): SettingsPreset | null => {
+  const encoded = encodeSettings(settings);
+  return presets.find(p => encodeSettings(applyPreset(p)) === encoded) ?? null;
+};
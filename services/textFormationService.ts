@@ -0,0 +1,132 @@
+import { TextTargets } from "../types";
+import {
+  TEXT_PARTICLE_SHARE,
+  TEXT_WORLD_WIDTH,
+  TEXT_MAX_LINES,
+  TEXT_MAX_FONT_PX,
+  TEXT_MIN_FONT_PX,
+  TEXT_DEPTH
+} from "../constants";
+
+// Raster size. Wide enough for TEXT_MAX_LINES lines at the smallest font.
+const RASTER_WIDTH = 1024;
+const RASTER_HEIGHT = 512;
+const LINE_HEIGHT = 1.2;
+const FONT_FAMILY = "'Inter', sans-serif";
+
+const fontAt = (size: number) => `600 ${size}px ${FONT_FAMILY}`;
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// Where a line may break: after each word, with its spaces and punctuation kept on it.
+// Scripts without spaces still segment into words. As a last resort a word too wide
+// for a line on its own breaks between characters, so nothing runs off the canvas.
+const breakUnits = (context: CanvasRenderingContext2D, text: string, maxWidth: number, breakWords: boolean): string[] => {
+  const units: string[] = [];
+  for (const { segment, isWordLike } of wordSegmenter.segment(text)) {
+    if (!isWordLike && units.length > 0) {
+      units[units.length - 1] += segment;
+    } else if (breakWords && context.measureText(segment).width > maxWidth) {
+      for (const { segment: grapheme } of graphemeSegmenter.segment(segment)) units.push(grapheme);
+    } else {
+      units.push(segment);
+    }
+  }
+  return units;
+};
+
+// Greedy wrap against measured widths
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number, breakWords = false): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const unit of breakUnits(context, text, maxWidth, breakWords)) {
+    if (line && context.measureText((line + unit).trimEnd()).width > maxWidth) {
+      lines.push(line.trimEnd());
+      line = unit.trimStart();
+    } else {
+      line += unit;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+};
+
+// Shrink the font until the phrase fits in TEXT_MAX_LINES. If even the smallest
+// size doesn't fit, keep what does and end on an ellipsis.
+export const layoutPhrase = (context: CanvasRenderingContext2D, text: string) => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  const maxWidth = RASTER_WIDTH * 0.94;
+
+  for (let size = TEXT_MAX_FONT_PX; size >= TEXT_MIN_FONT_PX; size -= 8) {
+    context.font = fontAt(size);
+    const lines = wrapText(context, trimmed, maxWidth);
+    // A single word wider than the canvas means a smaller size, not clipping
+    const fits = lines.every(line => context.measureText(line).width <= maxWidth);
+    if (fits && lines.length <= TEXT_MAX_LINES && lines.length * size * LINE_HEIGHT <= RASTER_HEIGHT) {
+      return { size, lines };
+    }
+  }
+
+  context.font = fontAt(TEXT_MIN_FONT_PX);
+  const lines = wrapText(context, trimmed, maxWidth, true).slice(0, TEXT_MAX_LINES);
+  let last = lines[lines.length - 1] ?? '';
+  while (last && context.measureText(`${last}…`).width > maxWidth) {
+    last = last.slice(0, -1).trimEnd();
+  }
+  lines[lines.length - 1] = `${last}…`;
+  return { size: TEXT_MIN_FONT_PX, lines };
+};
+
+// Rasterize the phrase and scatter particles over the lit pixels.
+// Returns positions in a camera-facing text plane centred on the origin.
+export const generateTextTargets = (text: string, count: number): TextTargets => {
+  const positions = new Float32Array(count * 3);
+  const weights = new Float32Array(count);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = RASTER_WIDTH;
+  canvas.height = RASTER_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context || !text.trim()) return { positions, weights };
+
+  const { size, lines } = layoutPhrase(context, text);
+  context.fillStyle = '#fff';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.font = fontAt(size);
+
+  const lineHeight = size * LINE_HEIGHT;
+  const top = RASTER_HEIGHT / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => context.fillText(line, RASTER_WIDTH / 2, top + i * lineHeight));
+
+  // Collect lit pixels, strided to keep this cheap
+  const { data } = context.getImageData(0, 0, RASTER_WIDTH, RASTER_HEIGHT);
+  const stride = 2;
+  const lit: number[] = [];
+  for (let y = 0; y < RASTER_HEIGHT; y += stride) {
+    for (let x = 0; x < RASTER_WIDTH; x += stride) {
+      if (data[(y * RASTER_WIDTH + x) * 4 + 3] > 128) lit.push(x, y);
+    }
+  }
+  if (lit.length === 0) return { positions, weights };
+
+  // Scale so the raster width maps onto TEXT_WORLD_WIDTH, y flipped to point up
+  const scale = TEXT_WORLD_WIDTH / RASTER_WIDTH;
+  const textCount = Math.floor(count * TEXT_PARTICLE_SHARE);
+  const pixels = lit.length / 2;
+
+  for (let i = 0; i < textCount; i++) {
+    // Walk the lit pixels evenly, with sub-pixel jitter, so every glyph gets its share
+    const p = Math.floor(((i + Math.random()) / textCount) * pixels) * 2;
+    const x = lit[p] + (Math.random() - 0.5) * stride;
+    const y = lit[p + 1] + (Math.random() - 0.5) * stride;
+
+    positions[i * 3] = (x - RASTER_WIDTH / 2) * scale;
+    positions[i * 3 + 1] = (RASTER_HEIGHT / 2 - y) * scale;
+    positions[i * 3 + 2] = (Math.random() - 0.5) * TEXT_DEPTH;
+    weights[i] = 1;
+  }
+
+  return { positions, weights };
+};
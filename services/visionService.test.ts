@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startMockGeminiServer } from '../scripts/mock-gemini-server.mjs';
+import { createGeminiClient } from './geminiClient';
+import { classifyVisionError, detectGesture } from './visionService';
+
+// Short request timeout, so the hanging scenario fails fast
+vi.mock('../constants', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../constants')>(),
+  VISION_TIMEOUT_MS: 300
+}));
+
+const FRAME = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ==';
+
+let mock: Awaited<ReturnType<typeof startMockGeminiServer>>;
+
+beforeAll(async () => {
+  mock = await startMockGeminiServer({ hangMs: 5000 });
+});
+
+afterAll(() => mock.close());
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const detect = (scenario: string) =>
+  detectGesture(FRAME, createGeminiClient({ apiKey: 'test-key', baseUrl: `${mock.url}/scenario/${scenario}` }));
+
+describe('detectGesture against the mock server', () => {
+  it('returns a valid answer as is, with usage from the response', async () => {
+    const result = await detect('open');
+    expect(result).toEqual({
+      ok: true,
+      response: expect.objectContaining({ gesture: 'OPEN', confidence: 0.93, openness: 0.9, position: { x: 0.5, y: 0.5 } }),
+      usage: { promptTokens: 270, outputTokens: 20, estimated: false }
+    });
+    expect(result.ok && result.response.hands).toHaveLength(1);
+  });
+
+  it('treats malformed JSON as a parse error', async () => {
+    const result = await detect('malformed');
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'parse' }) });
+  });
+
+  it('treats an empty answer as a parse error', async () => {
+    const result = await detect('empty');
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'parse' }) });
+  });
+
+  it('clamps out-of-range numbers', async () => {
+    const result = await detect('out-of-range');
+    expect(result.ok && result.response).toMatchObject({ gesture: 'OPEN', confidence: 1, openness: 0 });
+  });
+
+  it('reads an unknown gesture as no hand', async () => {
+    const result = await detect('unknown-gesture');
+    expect(result.ok && result.response).toEqual({ gesture: 'NONE', confidence: 0.9 });
+  });
+
+  it('reports 429 as quota, with the retry delay Google sends', async () => {
+    const result = await detect('quota');
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'quota', retryAfterMs: 20000 }) });
+  });
+
+  it('reports a rejected key as auth', async () => {
+    const result = await detect('auth');
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'auth' }) });
+  });
+
+  it('reports a 500 as server', async () => {
+    const result = await detect('server-error');
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'server' }) });
+  });
+
+  it('reports a request that never comes back as network', async () => {
+    const result = await detect('timeout');
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'network' }) });
+  });
+});
+
+describe('classifyVisionError', () => {
+  it('sorts errors without a browser around', () => {
+    expect(classifyVisionError(new SyntaxError('Unexpected end of JSON input')).kind).toBe('parse');
+    expect(classifyVisionError({ status: 403, message: 'Forbidden' }).kind).toBe('auth');
+    expect(classifyVisionError({ status: 503, message: 'Unavailable' }).kind).toBe('server');
+    expect(classifyVisionError(new TypeError('fetch failed')).kind).toBe('network');
+  });
+});
@@ -1,35 +1,155 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeminiVisionResponse } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type } from "@google/genai";
+import { CalibrationExample, FrameGesture, GeminiVisionResponse, GestureRecognizer, HandObservation, TokenUsage, VisionError, VisionResult } from "../types";
+import { CALIBRATION_EXAMPLE_TOKENS, FRAME_GESTURES, MAX_HANDS, VISION_TIMEOUT_MS, VISION_TOKEN_ESTIMATE } from "../constants";
+import { GeminiClient, getGeminiClient } from "./geminiClient";
 
 const modelName = "gemini-2.5-flash";
 
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const normalizeHand = (raw: unknown): HandObservation => {
+  const data = raw as Partial<HandObservation> | null;
+  if (!data || typeof data !== 'object') return { gesture: 'NONE', confidence: 0 };
+
+  const gesture = FRAME_GESTURES.includes(data.gesture as FrameGesture) ? data.gesture as FrameGesture : 'NONE';
+  const confidence = isFiniteNumber(data.confidence) ? clamp01(data.confidence) : 0;
+  const result: HandObservation = { gesture, confidence };
+  if (isFiniteNumber(data.openness)) {
+    result.openness = clamp01(data.openness);
+  }
+  if (data.position && isFiniteNumber(data.position.x) && isFiniteNumber(data.position.y)) {
+    result.position = { x: clamp01(data.position.x), y: clamp01(data.position.y) };
+  }
+  const box = data.boundingBox;
+  if (box && [box.x, box.y, box.width, box.height].every(isFiniteNumber)) {
+    const x = clamp01(box.x);
+    const y = clamp01(box.y);
+    result.boundingBox = { x, y, width: Math.min(1 - x, clamp01(box.width)), height: Math.min(1 - y, clamp01(box.height)) };
+  }
+  return result;
+};
+
+// Models occasionally ignore the schema; never let that leak into the app
+export const normalizeVisionResponse = (raw: unknown): GeminiVisionResponse => {
+  const result: GeminiVisionResponse = normalizeHand(raw);
+  const hands = (raw as { hands?: unknown } | null)?.hands;
+  if (Array.isArray(hands)) {
+    result.hands = hands.map(normalizeHand).filter(hand => hand.gesture !== 'NONE').slice(0, MAX_HANDS);
+  } else if (result.gesture !== 'NONE') {
+    // Older single-hand answers (and recordings): the one hand is the only hand
+    const { gesture, confidence, openness, position, boundingBox } = result;
+    result.hands = [{ gesture, confidence, openness, position, boundingBox }];
+  }
+  return result;
+};
+
+const handProperties = {
+  gesture: {
+    type: Type.STRING,
+    enum: ["OPEN", "CLOSED", "POINT", "PINCH", "THUMBS_UP", "PEACE", "NONE"],
+    description: "The pose of the hand visible in the image. CLOSED means a fist or contracted hand. OPEN means fingers spread or relaxed open palm. POINT means only the index finger extended. PINCH means thumb and index fingertips touching. THUMBS_UP means a fist with the thumb pointing up. PEACE means index and middle fingers extended in a V. NONE means no hand clearly visible."
+  },
+  confidence: {
+    type: Type.NUMBER,
+    description: "Confidence score between 0 and 1."
+  },
+  openness: {
+    type: Type.NUMBER,
+    description: "How open the hand is, between 0 (tight fist) and 1 (fingers fully spread). Use 0 when no hand is visible."
+  },
+  position: {
+    type: Type.OBJECT,
+    description: "Centre of the hand in image coordinates, 0-1 from the top-left corner. Omit when no hand is visible.",
+    properties: {
+      x: { type: Type.NUMBER },
+      y: { type: Type.NUMBER }
+    },
+    required: ["x", "y"]
+  },
+  boundingBox: {
+    type: Type.OBJECT,
+    description: "Tight box around the hand in image coordinates, 0-1 from the top-left corner. Omit when no hand is visible.",
+    properties: {
+      x: { type: Type.NUMBER },
+      y: { type: Type.NUMBER },
+      width: { type: Type.NUMBER },
+      height: { type: Type.NUMBER }
+    },
+    required: ["x", "y", "width", "height"]
+  }
+};
+
 const gestureSchema = {
   type: Type.OBJECT,
   properties: {
-    gesture: {
-      type: Type.STRING,
-      enum: ["OPEN", "CLOSED", "NONE"],
-      description: "The state of the hand visible in the image. CLOSED means a fist or contracted hand. OPEN means fingers spread or relaxed open palm. NONE means no hand clearly visible."
-    },
-    confidence: {
-      type: Type.NUMBER,
-      description: "Confidence score between 0 and 1."
+    ...handProperties,
+    hands: {
+      type: Type.ARRAY,
+      description: `Every clearly visible hand, up to ${MAX_HANDS}, most prominent first. Empty when no hand is visible.`,
+      items: {
+        type: Type.OBJECT,
+        properties: handProperties,
+        required: ["gesture", "confidence", "openness", "position"]
+      }
     }
   },
-  required: ["gesture", "confidence"]
+  required: ["gesture", "confidence", "openness", "hands"]
+};
+
+// Sort SDK and network failures into what the link monitor needs to react to
+export const classifyVisionError = (error: unknown): VisionError => {
+  const e = error as { status?: number; name?: string; message?: string };
+  const message = e?.message ?? String(error);
+  const status = typeof e?.status === 'number' ? e.status : undefined;
+
+  if (error instanceof SyntaxError) return { kind: 'parse', message };
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return { kind: 'auth', message };
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    // Google puts a RetryInfo detail in the body, e.g. "retryDelay": "20s"
+    const delay = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return { kind: 'quota', message, retryAfterMs: delay ? Number(delay[1]) * 1000 : undefined };
+  }
+  if (status !== undefined && status >= 500) return { kind: 'server', message };
+  // No status means the request never completed: offline, DNS, CORS, timeout.
+  // navigator is missing outside the browser, e.g. under Node in tests.
+  const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  if (status === undefined || offline) return { kind: 'network', message };
+  return { kind: 'server', message };
 };
 
-export const detectGesture = async (base64Image: string): Promise<GeminiVisionResponse> => {
+const stripDataUrl = (dataUrl: string) => dataUrl.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
+
+// Reference shots of this user's hands go before the frame, each labelled with its pose
+const exampleParts = (examples: CalibrationExample[]) => examples.length === 0 ? [] : [
+  { text: "Reference photos of this person's hands, taken in the same room and lighting:" },
+  ...examples.flatMap(example => [
+    { inlineData: { mimeType: "image/jpeg", data: stripDataUrl(example.image) } },
+    { text: `The photo above shows ${example.gesture}.` }
+  ]),
+  { text: "Now the frame to analyze:" }
+];
+
+export const detectGesture = async (
+  base64Image: string,
+  client?: GeminiClient,
+  examples: CalibrationExample[] = []
+): Promise<VisionResult> => {
+  let text: string | undefined;
+  let usage: TokenUsage | undefined;
   try {
     // Remove data URL prefix if present
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|webp);base64,/, "");
+    const cleanBase64 = stripDataUrl(base64Image);
 
-    const response = await ai.models.generateContent({
+    const response = await (client ?? getGeminiClient()).generateContent({
       model: modelName,
       contents: {
         parts: [
+          ...exampleParts(examples),
           {
             inlineData: {
               mimeType: "image/jpeg",
@@ -37,7 +157,7 @@ export const detectGesture = async (base64Image: string): Promise<GeminiVisionRe
             }
           },
           {
-            text: "Analyze the hand gesture in this image. Is the hand OPEN (fingers spread/palm visible) or CLOSED (fist/clenched)? Return JSON."
+            text: "Analyze the hand gesture in this image. Is the hand OPEN (fingers spread/palm visible) or CLOSED (fist/clenched)? If it is clearly one of POINT, PINCH, THUMBS_UP or PEACE, report that instead. Also estimate how open it is on a 0-1 scale and where the hand is (centre point and bounding box). Several people may share the camera: describe the most prominent hand at the top level, and list every visible hand in `hands` the same way. Return JSON."
           }
         ]
       },
@@ -45,16 +165,41 @@ export const detectGesture = async (base64Image: string): Promise<GeminiVisionRe
         responseMimeType: "application/json",
         responseSchema: gestureSchema,
         temperature: 0.1, // Low temp for deterministic classification
+        httpOptions: { timeout: VISION_TIMEOUT_MS }
       }
     });
 
-    const text = response.text;
-    if (!text) return { gesture: 'NONE', confidence: 0 };
-    
-    const result = JSON.parse(text) as GeminiVisionResponse;
-    return result;
+    text = response.text;
+    const meta = response.usageMetadata;
+    usage = meta?.promptTokenCount !== undefined
+      ? { promptTokens: meta.promptTokenCount, outputTokens: meta.candidatesTokenCount ?? 0, estimated: false }
+      : {
+          promptTokens: VISION_TOKEN_ESTIMATE.prompt + examples.length * CALIBRATION_EXAMPLE_TOKENS,
+          outputTokens: VISION_TOKEN_ESTIMATE.output,
+          estimated: true
+        };
   } catch (error) {
     console.error("Gemini Vision Error:", error);
-    return { gesture: 'NONE', confidence: 0 };
+    return { ok: false, error: classifyVisionError(error) };
   }
-};
\ No newline at end of file
+
+  // The request worked; a bad body is the model's fault, not the link's
+  if (!text) return { ok: false, error: { kind: 'parse', message: "Empty response." } };
+  try {
+    return { ok: true, response: normalizeVisionResponse(JSON.parse(text)), usage };
+  } catch (error) {
+    return { ok: false, error: classifyVisionError(error) };
+  }
+};
+
+// Cloud backend: ships each frame to Gemini as a JPEG, after any calibration examples
+export const createGeminiRecognizer = (examples: CalibrationExample[] = []): GestureRecognizer => ({
+  backend: 'gemini',
+  init: async () => {},
+  classify: (frame: HTMLCanvasElement) => {
+    // Lower quality for speed, the model doesn't need detail
+    const dataUrl = frame.toDataURL('image/jpeg', 0.5);
+    return detectGesture(dataUrl, undefined, examples);
+  },
+  dispose: () => {}
+});
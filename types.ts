@@ -1,9 +1,40 @@
 export enum GestureState {
   CLOSED = 'CLOSED', // Particles gathered (Saturn)
   OPEN = 'OPEN',     // Particles dispersed
-  NONE = 'NONE'      // No hand detected
+  NONE = 'NONE',     // No hand detected
+
+  // One-shot poses, fired once when they've been held for a couple of frames
+  POINT = 'POINT',
+  PINCH = 'PINCH',
+  THUMBS_UP = 'THUMBS_UP',
+  PEACE = 'PEACE',
+
+  // Motion across consecutive frames, from the user's point of view (mirrored)
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT'
 }
 
+// What a recognizer can see in a single frame
+export type FrameGesture = 'OPEN' | 'CLOSED' | 'NONE' | 'POINT' | 'PINCH' | 'THUMBS_UP' | 'PEACE';
+
+export type BindableGesture = Exclude<GestureState, GestureState.NONE>;
+
+export type GestureAction =
+  | 'none'
+  | 'disperse'
+  | 'reform'
+  | 'nextPhrase'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'rotateLeft'
+  | 'rotateRight'
+  | 'toggleAutoRotate'
+  | 'toggleInfo'
+  | 'nextFormation'
+  | 'capture';
+
+export type GestureBindings = Record<BindableGesture, GestureAction>;
+
 export interface ParticlePoint {
   x: number;
   y: number;
@@ -18,12 +49,429 @@ export interface ParticlePoint {
   size: number;
 }
 
-export interface GeminiVisionResponse {
-  gesture: 'OPEN' | 'CLOSED' | 'NONE';
+// Normalized raw (unmirrored) frame coordinates, 0-1 from the top-left corner
+export interface HandPosition {
+  x: number;
+  y: number;
+}
+
+export interface HandBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One hand in one frame
+export interface HandObservation {
+  gesture: FrameGesture;
   confidence: number;
+  openness?: number; // 0 = tight fist, 1 = fully spread fingers
+  position?: HandPosition; // Hand centre
+  boundingBox?: HandBox;
+}
+
+// The top-level fields describe the most prominent hand, so single-hand code can ignore `hands`
+export interface GeminiVisionResponse extends HandObservation {
+  hands?: HandObservation[]; // Every hand seen, most prominent first
+}
+
+// single = one hand drives everything; twoHands = the left hand drives the planet body and
+// the right hand the rings; twoVisitors = the planet splits in two, one per person
+export type InteractionMode = 'single' | 'twoHands' | 'twoVisitors';
+
+// Particles are split into two groups: 0 is the user's left, 1 the right
+export type HandSlot = 0 | 1;
+
+// A hand followed across frames, with its own smoothed open/closed state
+export interface TrackedHand {
+  id: number; // Stable while the hand stays in view
+  slot: HandSlot; // Chosen by which side it came in on, kept while tracked
+  state: GestureState.OPEN | GestureState.CLOSED;
+  openness: number;
+  position: HandPosition;
+}
+
+// What one particle group should do this frame
+export interface HandGroupControl {
+  expansion: number; // Target, 0 = formed, 1 = dispersed
+  position: HandPosition | null; // Steers the group's stardust
 }
 
+// How the scene reacts to the hand:
+// toggle = binary disperse/reform, continuous = expansion follows openness
+export type ExpansionMode = 'toggle' | 'continuous';
+
 export interface PhraseData {
   text: string;
-  id: number;
-}
\ No newline at end of file
+  id: string;
+  locale: string;     // BCP 47 tag, e.g. 'en' or 'pt-BR'
+  category?: string;
+  weight?: number;    // Relative pick chance, defaults to 1
+}
+
+export interface PhrasePack {
+  id: string;
+  name: string;
+  description?: string;
+  phrases: PhraseData[];
+}
+
+// Entry in the pack manifest (public/phrase-packs/index.json)
+export interface PhrasePackInfo {
+  id: string;
+  name: string;
+  url: string;
+  locales: string[];
+}
+
+export type PhraseSource = 'pack' | 'generated';
+
+export interface PhrasePreferences {
+  packId: string;
+  locale: string | null;   // null = pick from the browser
+  category: string | null; // null = all categories
+  source: PhraseSource;    // 'generated' asks a text model, falling back to the pack
+  mood: string | null;     // Theme for generated phrases, null = any
+}
+
+export type RecognizerBackend = 'gemini' | 'local';
+
+// Why a cloud request failed. Each calls for a different response: fix the key, wait, reconnect...
+export type VisionErrorKind = 'auth' | 'quota' | 'network' | 'server' | 'parse';
+
+export interface VisionError {
+  kind: VisionErrorKind;
+  message: string;
+  retryAfterMs?: number; // When the service says how long to wait
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  estimated: boolean; // No usage metadata came back, so these are our guess
+}
+
+export type VisionResult =
+  | { ok: true; response: GeminiVisionResponse; usage?: TokenUsage }
+  | { ok: false; error: VisionError };
+
+// Common contract for anything that can turn a camera frame into a gesture.
+// Implementations must never throw from classify; failures come back as { ok: false }.
+export interface GestureRecognizer {
+  readonly backend: RecognizerBackend | 'replay';
+  init(): Promise<void>;
+  classify(frame: HTMLCanvasElement): Promise<VisionResult>;
+  dispose(): void;
+}
+
+// The two poses calibration asks for
+export type CalibrationGesture = 'OPEN' | 'CLOSED';
+
+// On-device recognizer tuning: the skin colour range (YCbCr chroma) and the solidity cut-offs
+export interface LocalCalibration {
+  cb: [number, number];
+  cr: [number, number];
+  openSolidity: number;   // Below this the hand reads as open
+  fistSolidity: number;   // Solidity treated as openness 0
+  spreadSolidity: number; // Solidity treated as openness 1
+}
+
+export interface CalibrationExample {
+  gesture: CalibrationGesture;
+  image: string; // JPEG data URL of the guide-box crop, sent as a few-shot example
+}
+
+// One person's reference poses, kept in local storage
+export interface CalibrationProfile {
+  version: 1;
+  createdAt: string; // ISO timestamp
+  examples: CalibrationExample[];
+  local: LocalCalibration | null; // null when open and closed couldn't be told apart on-device
+  accuracy: number | null; // Share of the check prompts recognised, 0-1
+}
+
+// 'open' = circuit breaker tripped, waiting out a cooldown before probing again
+export type LinkStatus = 'local' | 'connecting' | 'connected' | 'retrying' | 'open' | 'offline' | 'auth' | 'quota' | 'budget';
+
+export interface LinkHealth {
+  status: LinkStatus;
+  requests: number;
+  failures: number; // Consecutive
+  promptTokens: number;
+  outputTokens: number;
+  estimatedCost: number; // USD, at list prices
+  budgetTokens: number | null; // null = unlimited
+  lastError: VisionError | null;
+  retryAt: number | null; // performance.now() time of the next attempt, while backing off
+}
+
+// How the parts of a frame away from the hand are hidden before upload
+export type RedactionStyle = 'blur' | 'mask';
+
+export interface RecognizerOptions {
+  localOnly?: boolean; // Refuse any backend that sends frames off the device
+  redaction?: RedactionStyle;
+  onFrameSent?: () => void; // Called for every frame that leaves the device
+  calibration?: CalibrationProfile | null; // Tunes the on-device backend, or adds few-shot examples to cloud requests
+}
+
+// 'local' means the camera may run, but only with an on-device recognizer
+export type CameraConsent = 'granted' | 'local' | 'declined';
+
+export type CameraResolutionId = 'low' | 'medium' | 'high';
+
+export interface CameraResolution {
+  id: CameraResolutionId;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Which camera to open and how. deviceId null means the browser's default.
+export interface CameraPreferences {
+  deviceId: string | null;
+  resolution: CameraResolutionId;
+  mirror: boolean; // Flip the preview, like a mirror. Display only: analysis always sees the raw frame.
+}
+
+export type CameraErrorKind = 'denied' | 'not-found' | 'busy' | 'unknown';
+
+export interface CameraError {
+  kind: CameraErrorKind;
+  message: string;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// One analysed camera tick: the JPEG that was classified and what came back
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  image: string; // JPEG data URL
+  response: GeminiVisionResponse;
+}
+
+export interface RecordedSession {
+  version: 1;
+  backend: RecognizerBackend | 'replay';
+  recordedAt: string; // ISO timestamp
+  frames: RecordedFrame[];
+}
+
+export type FormationId =
+  | 'saturn'
+  | 'saturnScale'
+  | 'jupiter'
+  | 'galaxy'
+  | 'blackHole'
+  | 'comet'
+  // Only in the solar system explorer
+  | 'mercury'
+  | 'venus'
+  | 'earth'
+  | 'mars'
+  | 'uranus'
+  | 'neptune';
+
+// Flat per-particle buffers: xyz positions, rgb colors, one size, one
+// orbital speed (rad/s around the local y axis) and one group each
+export interface FormationBuffers {
+  positions: Float32Array;
+  colors: Float32Array;
+  sizes: Float32Array;
+  orbits: Float32Array;
+  groups: Float32Array; // 0 = main body, 1 = rings, arms, disk or tail. Each follows one hand in two-hand mode.
+}
+
+// Tunable shape parameters a formation may use (see VisualSettings)
+export type FormationOptions = Pick<VisualSettings, 'saturnRadius' | 'ringInnerRadius' | 'ringOuterRadius' | 'planetShare' | 'ringOrbitSpeed'>;
+
+// A name shown next to part of a formation, in its local space
+export interface FormationLabel {
+  text: string;
+  position: [number, number, number];
+  orbit?: number; // rad/s around the local y axis, so a moon's label follows the moon
+  detail?: string; // Second line, e.g. the true distance
+}
+
+export interface ParticleFormation {
+  id: FormationId;
+  name: string;
+  generate(count: number, options: FormationOptions): FormationBuffers;
+  axialTiltDeg?: number; // Fixed tilt (about the view axis) instead of the tilt settings
+  labels?: FormationLabel[];
+}
+
+// Reference data for the Saturn scale model
+export interface RingRegion {
+  name: string;
+  innerKm: number;
+  outerKm: number;
+  opticalDepth: number; // Normal optical depth, tau
+  color: string;
+}
+
+export interface MoonData {
+  name: string;
+  semiMajorAxisKm: number;
+  radiusKm: number;
+  color: string;
+}
+
+export type PlanetId = 'mercury' | 'venus' | 'earth' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune';
+
+// One stop in the solar system explorer, with what its fact card shows
+export interface PlanetInfo {
+  id: PlanetId; // Also the phrase category in the solar system pack
+  name: string;
+  formation: FormationId;
+  summary: string;
+  diameterKm: number;
+  dayHours: number; // Sidereal rotation period
+  yearDays: number;
+  distanceAu: number; // Mean distance from the Sun
+  moons: number;
+  axialTiltDeg: number; // Over 90° means it spins backwards
+}
+
+// Where the revealed phrase appears: HTML overlay, or spelled out by the particles
+export type PhraseDisplayMode = 'overlay' | 'particles';
+
+export interface TextTargets {
+  positions: Float32Array; // Text-plane coords (x right, y up, z depth jitter)
+  weights: Float32Array;   // 1 = particle is part of the lettering, 0 = stays in the nebula
+}
+
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+// One step on the ladder the performance governor moves along
+export interface QualityTier {
+  id: QualityTierId;
+  name: string;
+  simTextureSize: number; // Particles = simTextureSize²
+  starCount: number;
+  maxDpr: number;
+  curlNoise: boolean; // Turbulence in the simulation, otherwise a cheap wobble
+  heatGlow: boolean;  // Fast particles glow hot
+}
+
+export interface PerformanceStats {
+  tier: QualityTierId;
+  fps: number;
+  frameMs: number; // Average over the governor's window
+  pinned: boolean; // Tier fixed from the URL, governor only measures
+}
+
+// Live-tunable look and feel. Serialized into the URL so a tuned look can be shared.
+export type QualitySetting = 'auto' | QualityTierId;
+
+export interface VisualSettings {
+  saturnRadius: number;
+  ringInnerRadius: number;
+  ringOuterRadius: number;
+  planetShare: number;      // Fraction of particles in the planet, the rest form the rings
+  ringOrbitSpeed: number;   // rad/s at the inner ring edge
+  tiltX: number;            // Degrees
+  tiltZ: number;            // Degrees
+  expansionScale: number;   // How far the nebula spreads
+  expansionLerpSpeed: number;
+  springFormed: number;
+  damping: number;
+  curlStrength: number;
+  burstStrength: number;
+  cameraCheckIntervalMs: number;
+  quality: QualitySetting;
+}
+
+export type NumericSettingKey = Exclude<keyof VisualSettings, 'quality'>;
+
+export type SettingGroup = 'shape' | 'motion' | 'system';
+
+export interface NumericSettingDefinition {
+  key: NumericSettingKey;
+  param: string; // Short key in the shared URL
+  label: string;
+  group: SettingGroup;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: Partial<VisualSettings>; // Applied over the defaults
+  builtin?: boolean;
+}
+
+export type CaptureMode = 'screenshot' | 'card' | 'clip';
+
+// What the DOM overlay is showing, so captures can draw it into the image
+export interface PhraseOverlayState {
+  text: string;
+  opacity: number; // 0-1
+  locale?: string;
+}
+
+// Provided by the in-Canvas capture rig
+export interface FrameCapturer {
+  readonly canvas: HTMLCanvasElement; // The live WebGL canvas; only readable right after a render
+  still(scale: number): HTMLCanvasElement; // Renders once at `scale` x the current resolution, returns a copy
+  onFrame(callback: () => void): () => void; // Called after every render; returns unsubscribe
+}
+
+export type KeyboardAction =
+  | 'toggleExpansion'
+  | 'nextPhrase'
+  | 'toggleInfo'
+  | 'toggleFullscreen'
+  | 'toggleLabels'
+  | 'toggleExplorer'
+  | 'previousPlanet'
+  | 'nextPlanet'
+  | 'toggleDiagnostics'
+  | 'closePanel';
+
+export interface KeyboardShortcut {
+  key: string; // KeyboardEvent.key, lower-case
+  label: string; // As shown to people, e.g. "Space"
+  action: KeyboardAction;
+  description: string;
+}
+
+// One recognizer answer, for the diagnostics timeline
+export interface ClassificationEntry {
+  t: number; // ms since diagnostics started
+  gesture: FrameGesture;
+  confidence: number;
+}
+
+// Round-trip times in ms over the recent requests
+export interface LatencyStats {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+// Everything the diagnostics HUD shows, and what gets exported for bug reports
+export interface DiagnosticsSnapshot {
+  uptimeMs: number;
+  backend: GestureRecognizer['backend'] | null;
+  inFlight: number;
+  requests: number;
+  errors: number;
+  latency: LatencyStats | null; // null until a request has come back
+  lastError: VisionError | null;
+  lastResponse: GeminiVisionResponse | null;
+  lastResponseAt: number | null; // ms since diagnostics started
+  timeline: ClassificationEntry[]; // Oldest first
+  performance: PerformanceStats | null;
+  expansion: [number, number]; // The simulation's eased uExpansion, per particle group
+  particles: number; // Currently drawn
+}
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL),
+        'process.env.LOCAL_ONLY': JSON.stringify(env.LOCAL_ONLY),
+        'process.env.SESSION_TOKEN_BUDGET': JSON.stringify(env.SESSION_TOKEN_BUDGET)
       },
       resolve: {
         alias: {